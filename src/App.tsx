@@ -6,6 +6,10 @@ import { AdminPage } from './pages/AdminPage'
 import { ManageProductsPage } from './pages/ManageProductsPage'
 import { EditProductPage } from './pages/EditProductPage'
 import { ManageReviewsPage } from './pages/ManageReviewsPage'
+import { ReviewAnalyticsPage } from './pages/ReviewAnalyticsPage'
+import { ManageAnnouncementsPage } from './pages/ManageAnnouncementsPage'
+import { StoreSettingsPage } from './pages/StoreSettingsPage'
+import { ManagePurchaseCodesPage } from './pages/ManagePurchaseCodesPage'
 import { ProtectedRoute } from './components/ProtectedRoute'
 
 function App() {
@@ -13,6 +17,7 @@ function App() {
     <BrowserRouter>
       <Routes>
         <Route path="/" element={<HomePage />} />
+        <Route path="/categoria/:slug" element={<HomePage />} />
         <Route path="/producto/:id" element={<ProductDetailPage />} />
         <Route path="/login" element={<LoginPage />} />
         <Route
@@ -39,6 +44,38 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/admin/comentarios/analitica"
+          element={
+            <ProtectedRoute>
+              <ReviewAnalyticsPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/anuncios"
+          element={
+            <ProtectedRoute>
+              <ManageAnnouncementsPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/ventas"
+          element={
+            <ProtectedRoute>
+              <ManagePurchaseCodesPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/configuracion"
+          element={
+            <ProtectedRoute>
+              <StoreSettingsPage />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/admin/editar/:id"
           element={
@@ -0,0 +1,209 @@
+import { useEffect, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { useCart } from '../hooks/useCart'
+import { apiService } from '../services/api'
+import type { Product } from '../types/product'
+import {
+  clearCart,
+  getCartItemCount,
+  getCartLineMaxQuantity,
+  getCartTotal,
+  removeCartItem,
+  repriceCartItems,
+  setCartItemQuantity,
+} from '../utils/cart'
+import { buildCartOrderMessage, formatPrice, getMainCartCategory, openWhatsApp } from '../utils/whatsapp'
+
+interface CartDrawerProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+export const CartDrawer = ({ isOpen, onClose }: CartDrawerProps) => {
+  const cartItems = useCart()
+  const [products, setProducts] = useState<Product[]>([])
+  const [priceStatus, setPriceStatus] = useState<'loading' | 'ready' | 'failed'>('loading')
+  const [priceAttempt, setPriceAttempt] = useState(0)
+  const closeButtonRef = useRef<HTMLButtonElement | null>(null)
+  const items = repriceCartItems(cartItems, products)
+  const itemCount = getCartItemCount(items)
+  const total = getCartTotal(items)
+  const hasUnavailableItems =
+    priceStatus === 'ready' && cartItems.some((item) => !products.some((product) => product.id === item.productId))
+  const canCheckout = items.length > 0 && priceStatus === 'ready' && !hasUnavailableItems
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    let isMounted = true
+
+    const loadProducts = async () => {
+      const fetchedProducts = await apiService.getProducts()
+      if (!isMounted) return
+      setProducts(fetchedProducts)
+      setPriceStatus(fetchedProducts.length > 0 ? 'ready' : 'failed')
+    }
+
+    void loadProducts()
+
+    return () => {
+      isMounted = false
+      setPriceStatus('loading')
+    }
+  }, [isOpen, priceAttempt])
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    closeButtonRef.current?.focus()
+
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [isOpen, onClose])
+
+  const handleCheckout = () => {
+    if (!canCheckout) return
+
+    const pricedItems = repriceCartItems(cartItems, products)
+    openWhatsApp(buildCartOrderMessage(pricedItems), getMainCartCategory(pricedItems))
+  }
+
+  const handleRetryPrices = () => {
+    setPriceAttempt((prev) => prev + 1)
+  }
+
+  const handleClear = () => {
+    const confirmed = window.confirm('¿Deseas vaciar el carrito?')
+    if (!confirmed) return
+    clearCart()
+  }
+
+  if (!isOpen) return null
+
+  return createPortal(
+    <div className="fixed inset-0 z-60 flex justify-end bg-black/50" onClick={onClose}>
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label="Carrito de compras"
+        onClick={(event) => event.stopPropagation()}
+        className="flex h-full w-full max-w-md flex-col bg-white shadow-2xl"
+      >
+        <div className="flex items-center justify-between border-b border-gray-200 px-5 py-4">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Tu carrito</h2>
+            <p className="text-xs text-gray-500">
+              {itemCount} {itemCount === 1 ? 'producto' : 'productos'}
+            </p>
+          </div>
+          <button
+            ref={closeButtonRef}
+            type="button"
+            onClick={onClose}
+            className="rounded-lg border border-gray-300 px-2 py-1 text-xs font-semibold text-gray-600"
+          >
+            Cerrar
+          </button>
+        </div>
+
+        {items.length === 0 ? (
+          <div className="flex flex-1 flex-col items-center justify-center gap-2 px-5 text-center">
+            <p className="text-4xl">🛒</p>
+            <p className="text-sm font-semibold text-gray-700">Tu carrito está vacío</p>
+            <p className="text-xs text-gray-500">Agrega productos desde el catálogo para armar tu pedido.</p>
+          </div>
+        ) : (
+          <ul className="flex-1 space-y-3 overflow-y-auto px-5 py-4">
+            {items.map((item) => (
+              <li key={item.lineId} className="flex gap-3 rounded-xl border border-gray-200 bg-gray-50 p-3">
+                <img src={item.image} alt={item.name} className="h-16 w-16 shrink-0 rounded-lg object-cover" />
+                <div className="min-w-0 flex-1">
+                  <p className="line-clamp-1 text-sm font-bold text-gray-900">{item.name}</p>
+                  {item.variantLabel && <p className="line-clamp-1 text-xs text-violet-700">{item.variantLabel}</p>}
+                  <p className="text-xs text-gray-500">${formatPrice(item.price)} c/u</p>
+
+                  <div className="mt-2 flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        aria-label={`Quitar una unidad de ${item.name}`}
+                        onClick={() => setCartItemQuantity(item.lineId, item.quantity - 1)}
+                        className="h-7 w-7 rounded-lg border border-gray-300 bg-white text-sm font-bold text-gray-700"
+                      >
+                        −
+                      </button>
+                      <span className="w-8 text-center text-sm font-semibold text-gray-900">{item.quantity}</span>
+                      <button
+                        type="button"
+                        aria-label={`Agregar una unidad de ${item.name}`}
+                        onClick={() => setCartItemQuantity(item.lineId, item.quantity + 1)}
+                        disabled={item.quantity >= getCartLineMaxQuantity(items, item.lineId)}
+                        className="h-7 w-7 rounded-lg border border-gray-300 bg-white text-sm font-bold text-gray-700 disabled:opacity-40"
+                      >
+                        +
+                      </button>
+                    </div>
+                    <p className="text-sm font-bold text-primary-700">${formatPrice(item.price * item.quantity)}</p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  aria-label={`Eliminar ${item.name} del carrito`}
+                  onClick={() => removeCartItem(item.lineId)}
+                  className="self-start text-xs font-semibold text-rose-600 hover:text-rose-700"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-3 border-t border-gray-200 px-5 py-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-semibold text-gray-700">Total</p>
+            <p className="text-2xl font-extrabold text-gray-900">${formatPrice(total)}</p>
+          </div>
+          {items.length > 0 && priceStatus === 'loading' && (
+            <p className="text-xs text-gray-500">Verificando los precios actuales...</p>
+          )}
+          {items.length > 0 && priceStatus === 'failed' && (
+            <p className="text-xs text-rose-700">
+              No se pudieron verificar los precios actuales.{' '}
+              <button type="button" onClick={handleRetryPrices} className="font-semibold underline">
+                Reintentar
+              </button>
+            </p>
+          )}
+          {hasUnavailableItems && (
+            <p className="text-xs text-rose-700">
+              Algunos productos ya no están disponibles. Quítalos del carrito para enviar tu pedido.
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={handleCheckout}
+            disabled={!canCheckout}
+            className="w-full rounded-xl bg-emerald-600 px-4 py-3 text-base font-bold text-white transition hover:bg-emerald-700 disabled:opacity-50"
+          >
+            Enviar pedido por WhatsApp
+          </button>
+          {items.length > 0 && (
+            <button
+              type="button"
+              onClick={handleClear}
+              className="w-full rounded-xl border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-600 hover:bg-gray-50"
+            >
+              Vaciar carrito
+            </button>
+          )}
+        </div>
+      </aside>
+    </div>,
+    document.body
+  )
+}
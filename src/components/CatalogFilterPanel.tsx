@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react'
+import { createPortal } from 'react-dom'
+import type { CategoryFacet, PriceRange } from '../utils/catalogFilters'
+import { formatPrice } from '../utils/whatsapp'
+
+interface CatalogFilterPanelProps {
+  categories: CategoryFacet[]
+  priceBounds: PriceRange
+  priceRange: PriceRange
+  onlyNew: boolean
+  newCount: number
+  onlyOffers: boolean
+  offersCount: number
+  activeFilterCount: number
+  resultCount: number
+  onToggleCategory: (slug: string) => void
+  onPriceChange: (range: PriceRange) => void
+  onToggleNew: () => void
+  onToggleOffers: () => void
+  onClear: () => void
+}
+
+export const CatalogFilterPanel = ({
+  categories,
+  priceBounds,
+  priceRange,
+  onlyNew,
+  newCount,
+  onlyOffers,
+  offersCount,
+  activeFilterCount,
+  resultCount,
+  onToggleCategory,
+  onPriceChange,
+  onToggleNew,
+  onToggleOffers,
+  onClear,
+}: CatalogFilterPanelProps) => {
+  const [isSheetOpen, setIsSheetOpen] = useState(false)
+  const hasPriceRange = priceBounds.max > priceBounds.min
+
+  useEffect(() => {
+    if (!isSheetOpen) return
+
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsSheetOpen(false)
+    }
+
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [isSheetOpen])
+
+  const filterContent = (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-base font-bold text-gray-900">Filtros</h2>
+        <button
+          type="button"
+          onClick={onClear}
+          disabled={activeFilterCount === 0}
+          className="text-sm font-semibold text-primary-600 hover:underline disabled:cursor-not-allowed disabled:text-gray-400 disabled:no-underline"
+        >
+          Limpiar filtros
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex cursor-pointer items-center justify-between gap-2 rounded-xl border border-gray-200 px-3 py-2 text-sm">
+          <span className="flex items-center gap-2 font-semibold text-gray-700">
+            <input type="checkbox" checked={onlyNew} onChange={onToggleNew} disabled={!onlyNew && newCount === 0} />
+            ✨ Solo novedades
+          </span>
+          <span className="text-xs text-gray-500">{newCount}</span>
+        </label>
+        <label className="flex cursor-pointer items-center justify-between gap-2 rounded-xl border border-gray-200 px-3 py-2 text-sm">
+          <span className="flex items-center gap-2 font-semibold text-gray-700">
+            <input type="checkbox" checked={onlyOffers} onChange={onToggleOffers} disabled={!onlyOffers && offersCount === 0} />
+            🔥 Solo ofertas
+          </span>
+          <span className="text-xs text-gray-500">{offersCount}</span>
+        </label>
+      </div>
+
+      {hasPriceRange && (
+        <fieldset className="space-y-3">
+          <legend className="mb-2 text-sm font-bold text-gray-800">Precio</legend>
+          <p className="text-sm font-semibold text-primary-700">
+            ${formatPrice(priceRange.min)} – ${formatPrice(priceRange.max)}
+          </p>
+          <label className="block text-xs font-semibold text-gray-600">
+            Mínimo
+            <input
+              type="range"
+              min={priceBounds.min}
+              max={priceBounds.max}
+              step={1}
+              value={priceRange.min}
+              onChange={(event) => onPriceChange({ min: Math.min(Number(event.target.value), priceRange.max), max: priceRange.max })}
+              className="mt-1 w-full accent-primary-600"
+            />
+          </label>
+          <label className="block text-xs font-semibold text-gray-600">
+            Máximo
+            <input
+              type="range"
+              min={priceBounds.min}
+              max={priceBounds.max}
+              step={1}
+              value={priceRange.max}
+              onChange={(event) => onPriceChange({ min: priceRange.min, max: Math.max(Number(event.target.value), priceRange.min) })}
+              className="mt-1 w-full accent-primary-600"
+            />
+          </label>
+        </fieldset>
+      )}
+
+      {categories.length > 0 && (
+        <fieldset>
+          <legend className="mb-2 text-sm font-bold text-gray-800">Categorías</legend>
+          <ul className="space-y-1">
+            {categories.map((category) => (
+              <li key={category.slug}>
+                <label
+                  className={`flex cursor-pointer items-center justify-between gap-2 rounded-lg px-2 py-1.5 text-sm transition ${
+                    category.isSelected ? 'bg-primary-50 font-semibold text-primary-800' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={category.isSelected}
+                      onChange={() => onToggleCategory(category.slug)}
+                      disabled={!category.isSelected && category.count === 0}
+                    />
+                    {category.label}
+                  </span>
+                  <span className="text-xs text-gray-500">{category.count}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </fieldset>
+      )}
+    </div>
+  )
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsSheetOpen(true)}
+        className="mb-4 flex w-full items-center justify-center gap-2 rounded-xl border border-primary-300 bg-primary-50 px-4 py-2.5 text-sm font-semibold text-primary-700 md:hidden"
+      >
+        ⚙️ Filtros {activeFilterCount > 0 && `(${activeFilterCount})`}
+      </button>
+
+      <aside className="hidden self-start rounded-2xl border border-gray-200 bg-white p-4 md:block">{filterContent}</aside>
+
+      {isSheetOpen &&
+        createPortal(
+          <div className="fixed inset-0 z-60 flex items-end bg-black/50 md:hidden" onClick={() => setIsSheetOpen(false)}>
+            <div
+              role="dialog"
+              aria-modal="true"
+              aria-label="Filtros del catálogo"
+              onClick={(event) => event.stopPropagation()}
+              className="flex max-h-[85vh] w-full flex-col rounded-t-3xl bg-white shadow-2xl"
+            >
+              <div className="mx-auto mt-3 h-1.5 w-12 rounded-full bg-gray-300" />
+              <div className="flex-1 overflow-y-auto px-5 py-4">{filterContent}</div>
+              <div className="border-t border-gray-200 px-5 py-3">
+                <button
+                  type="button"
+                  onClick={() => setIsSheetOpen(false)}
+                  className="w-full rounded-xl bg-primary-600 py-3 text-sm font-bold text-white"
+                >
+                  Ver {resultCount} {resultCount === 1 ? 'producto' : 'productos'}
+                </button>
+              </div>
+            </div>
+          </div>,
+          document.body
+        )}
+    </>
+  )
+}
@@ -0,0 +1,249 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { KeyboardEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import type { Product } from '../types/product'
+import { getEffectivePrice } from '../utils/productPricing'
+import { getSearchScore, normalizeSearchText, searchProducts, tokenizeSearchQuery } from '../utils/productSearch'
+import { getProductPriceRange } from '../utils/productVariants'
+import { clearRecentSearches, readRecentSearches, saveRecentSearch } from '../utils/recentSearches'
+import { formatPrice } from '../utils/whatsapp'
+import { HighlightedText } from './HighlightedText'
+
+interface CatalogSearchBoxProps {
+  value: string
+  products: Product[]
+  categories: string[]
+  onChange: (value: string) => void
+  onSelectCategory: (category: string) => void
+}
+
+type Suggestion =
+  | { type: 'recent'; id: string; term: string }
+  | { type: 'category'; id: string; category: string }
+  | { type: 'product'; id: string; product: Product }
+
+const MAX_PRODUCT_SUGGESTIONS = 5
+const MAX_CATEGORY_SUGGESTIONS = 3
+
+export const CatalogSearchBox = ({ value, products, categories, onChange, onSelectCategory }: CatalogSearchBoxProps) => {
+  const navigate = useNavigate()
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const [recentSearches, setRecentSearches] = useState(readRecentSearches)
+  const containerRef = useRef<HTMLDivElement | null>(null)
+
+  const suggestions = useMemo<Suggestion[]>(() => {
+    const tokens = tokenizeSearchQuery(value)
+    const normalizedValue = normalizeSearchText(value)
+
+    const recentItems = recentSearches
+      .filter((term) => !normalizedValue || (normalizeSearchText(term).includes(normalizedValue) && term !== value.trim()))
+      .map((term) => ({ type: 'recent' as const, id: `recent-${term}`, term }))
+
+    if (tokens.length === 0) return recentItems
+
+    const categoryItems = categories
+      .filter((category) => getSearchScore({ category }, tokens) > 0)
+      .slice(0, MAX_CATEGORY_SUGGESTIONS)
+      .map((category) => ({ type: 'category' as const, id: `category-${category}`, category }))
+
+    const productItems = searchProducts(products, value)
+      .slice(0, MAX_PRODUCT_SUGGESTIONS)
+      .map((product) => ({ type: 'product' as const, id: `product-${product.id}`, product }))
+
+    return [...recentItems, ...categoryItems, ...productItems]
+  }, [categories, products, recentSearches, value])
+
+  const isDropdownVisible = isOpen && suggestions.length > 0
+  const activeSuggestion = isDropdownVisible ? suggestions[activeIndex] : undefined
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handlePointerDownOutside = (event: MouseEvent | TouchEvent) => {
+      const target = event.target as Node | null
+      if (target && containerRef.current && !containerRef.current.contains(target)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handlePointerDownOutside)
+    document.addEventListener('touchstart', handlePointerDownOutside)
+
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDownOutside)
+      document.removeEventListener('touchstart', handlePointerDownOutside)
+    }
+  }, [isOpen])
+
+  const rememberSearch = () => {
+    setRecentSearches(saveRecentSearch(value))
+  }
+
+  const selectSuggestion = (suggestion: Suggestion) => {
+    setIsOpen(false)
+    setActiveIndex(-1)
+
+    if (suggestion.type === 'recent') {
+      onChange(suggestion.term)
+      setRecentSearches(saveRecentSearch(suggestion.term))
+      return
+    }
+
+    rememberSearch()
+
+    if (suggestion.type === 'category') {
+      onSelectCategory(suggestion.category)
+      return
+    }
+
+    navigate(`/producto/${suggestion.product.id}`)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    const total = suggestions.length
+
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      if (total === 0) return
+      event.preventDefault()
+      setIsOpen(true)
+
+      if (!isDropdownVisible) {
+        setActiveIndex(event.key === 'ArrowDown' ? 0 : total - 1)
+        return
+      }
+
+      const offset = event.key === 'ArrowDown' ? 1 : -1
+      setActiveIndex((prev) => (prev < 0 && offset < 0 ? total - 1 : (prev + offset + total) % total))
+      return
+    }
+
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      if (activeSuggestion) {
+        selectSuggestion(activeSuggestion)
+        return
+      }
+
+      rememberSearch()
+      setIsOpen(false)
+      return
+    }
+
+    if (event.key === 'Escape') {
+      if (!isDropdownVisible && value) onChange('')
+      setIsOpen(false)
+      setActiveIndex(-1)
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="flex items-center rounded-xl border border-gray-200 bg-gray-50 px-4">
+        <span className="mr-2 text-lg">🔍</span>
+        <input
+          role="combobox"
+          aria-expanded={isDropdownVisible}
+          aria-controls="catalog-search-suggestions"
+          aria-autocomplete="list"
+          aria-activedescendant={activeSuggestion ? `catalog-search-${activeSuggestion.id}` : undefined}
+          value={value}
+          onChange={(event) => {
+            onChange(event.target.value)
+            setIsOpen(true)
+            setActiveIndex(-1)
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Buscar productos..."
+          className="w-full bg-transparent py-3 text-sm text-gray-700 outline-none"
+        />
+      </div>
+
+      {isDropdownVisible && (
+        <ul
+          id="catalog-search-suggestions"
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-30 mt-2 max-h-96 overflow-y-auto rounded-xl border border-gray-200 bg-white py-2 shadow-2xl"
+        >
+          {suggestions.map((suggestion, index) => {
+            const isActive = index === activeIndex
+            const previous = suggestions[index - 1]
+            const showHeading = !previous || previous.type !== suggestion.type
+            const headingLabel =
+              suggestion.type === 'recent' ? 'Búsquedas recientes' : suggestion.type === 'category' ? 'Categorías' : 'Productos'
+
+            return (
+              <li key={suggestion.id} role="presentation">
+                {showHeading && (
+                  <div className="flex items-center justify-between px-4 pb-1 pt-2 text-[11px] font-bold uppercase tracking-wide text-gray-400">
+                    <span>{headingLabel}</span>
+                    {suggestion.type === 'recent' && (
+                      <button
+                        type="button"
+                        onMouseDown={(event) => event.preventDefault()}
+                        onClick={() => {
+                          clearRecentSearches()
+                          setRecentSearches([])
+                          setActiveIndex(-1)
+                        }}
+                        className="normal-case tracking-normal text-primary-600 hover:underline"
+                      >
+                        Borrar
+                      </button>
+                    )}
+                  </div>
+                )}
+                <div
+                  id={`catalog-search-${suggestion.id}`}
+                  role="option"
+                  aria-selected={isActive}
+                  onMouseDown={(event) => event.preventDefault()}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => selectSuggestion(suggestion)}
+                  className={`flex cursor-pointer items-center gap-3 px-4 py-2 text-sm ${
+                    isActive ? 'bg-primary-50 text-primary-800' : 'text-gray-700'
+                  }`}
+                >
+                  {suggestion.type === 'recent' && (
+                    <>
+                      <span className="text-gray-400">🕘</span>
+                      <span className="truncate">{suggestion.term}</span>
+                    </>
+                  )}
+                  {suggestion.type === 'category' && (
+                    <>
+                      <span className="text-gray-400">🏷️</span>
+                      <span className="truncate font-semibold">
+                        <HighlightedText text={suggestion.category} query={value} />
+                      </span>
+                    </>
+                  )}
+                  {suggestion.type === 'product' && (
+                    <>
+                      <img
+                        src={suggestion.product.image}
+                        alt=""
+                        loading="lazy"
+                        className="h-10 w-10 shrink-0 rounded-lg border border-gray-200 object-cover"
+                      />
+                      <span className="min-w-0 flex-1">
+                        <span className="block truncate font-semibold">
+                          <HighlightedText text={suggestion.product.name} query={value} />
+                        </span>
+                        <span className="block truncate text-xs text-gray-500">{suggestion.product.category}</span>
+                      </span>
+                      <span className="shrink-0 font-bold text-gray-900">
+                        ${formatPrice(getEffectivePrice(suggestion.product, getProductPriceRange(suggestion.product).min))}
+                      </span>
+                    </>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,17 @@
-import { useEffect, useMemo, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { usePaginationLimit } from '../hooks/usePaginationLimit'
+import { useStoreSettings } from '../hooks/useStoreSettings'
 import { apiService } from '../services/api'
 import type { Product } from '../types/product'
-import type { Review } from '../types/review'
+import type { RatingDistribution, Review, ReviewLimitError } from '../types/review'
+import { ImageLightbox } from './ImageLightbox'
+import { MyReviewsPanel } from './MyReviewsPanel'
+import { compressImage } from '../utils/imageCompression'
 import { buildCompactPagination } from '../utils/pagination'
+import { getLikeCooldownLimit, getReviewSubmissionLimit, recordLikeToggle, recordReviewSubmission } from '../utils/reviewLimits'
+import { saveReviewEditToken } from '../utils/reviewEditTokens'
+import { REVIEW_SORT_OPTIONS, sortReviews } from '../utils/reviews'
+import type { ReviewSortMode } from '../utils/reviews'
 
 interface CustomerReviewsSectionProps {
   products: Product[]
@@ -11,51 +19,24 @@ interface CustomerReviewsSectionProps {
   averageRating: number
   totalReviews: number
   totalLikes: number
+  ratingDistribution: RatingDistribution
   onReviewSent: () => Promise<void>
   visitorId: string
+  product?: Product
+  initialPurchaseCode?: string
 }
 
 const DEFAULT_REVIEW_RATING = 5
 const COMMENTS_PER_PAGE = 4
+const MAX_REVIEW_PHOTOS = 3
 
-const normalizeCategory = (value: string) => value.trim().toLowerCase()
-
-const getDateValue = (value: string) => {
-  const parsed = new Date(value).getTime()
-  return Number.isNaN(parsed) ? 0 : parsed
+interface ReviewPhotoDraft {
+  id: string
+  file: File
+  url: string
 }
 
-const prioritizeReviews = (reviews: Review[]): Review[] => {
-  if (reviews.length <= 1) return [...reviews]
-
-  const topRated = [...reviews]
-    .sort((first, second) => {
-      const byRating = second.rating - first.rating
-      if (byRating !== 0) return byRating
-      return getDateValue(second.createdAt) - getDateValue(first.createdAt)
-    })
-    .slice(0, 2)
-
-  const lowRated = [...reviews]
-    .sort((first, second) => {
-      const byRating = first.rating - second.rating
-      if (byRating !== 0) return byRating
-      return getDateValue(second.createdAt) - getDateValue(first.createdAt)
-    })
-    .slice(0, 2)
-
-  const featured = [...topRated, ...lowRated].reduce<Review[]>((accumulator, current) => {
-    if (accumulator.some((item) => item.id === current.id)) return accumulator
-    accumulator.push(current)
-    return accumulator
-  }, [])
-
-  const remaining = reviews
-    .filter((review) => !featured.some((item) => item.id === review.id))
-    .sort((first, second) => getDateValue(second.createdAt) - getDateValue(first.createdAt))
-
-  return [...featured, ...remaining]
-}
+const normalizeCategory = (value: string) => value.trim().toLowerCase()
 
 const renderStars = (rating: number) => {
   return '★★★★★'.split('').map((star, index) => (
@@ -71,24 +52,39 @@ export const CustomerReviewsSection = ({
   averageRating,
   totalReviews,
   totalLikes,
+  ratingDistribution,
   onReviewSent,
   visitorId,
+  product,
+  initialPurchaseCode = '',
 }: CustomerReviewsSectionProps) => {
   const paginationLimit = usePaginationLimit()
-  const [isPopupOpen, setIsPopupOpen] = useState(false)
+  const { storeName } = useStoreSettings()
+  const [isPopupOpen, setIsPopupOpen] = useState(Boolean(initialPurchaseCode))
+  const [isMyReviewsOpen, setIsMyReviewsOpen] = useState(false)
   const [submitting, setSubmitting] = useState(false)
   const [customerName, setCustomerName] = useState('')
-  const [selectedCategory, setSelectedCategory] = useState('')
-  const [selectedProductId, setSelectedProductId] = useState('')
+  const [selectedCategory, setSelectedCategory] = useState(product?.category ?? '')
+  const [selectedProductId, setSelectedProductId] = useState(product?.id ?? '')
   const [rating, setRating] = useState(DEFAULT_REVIEW_RATING)
   const [comment, setComment] = useState('')
   const [recommend, setRecommend] = useState(true)
+  const [purchaseCode, setPurchaseCode] = useState(initialPurchaseCode)
+  const [limitError, setLimitError] = useState<ReviewLimitError | null>(null)
   const [likingReviewId, setLikingReviewId] = useState('')
   const [currentReviewsPage, setCurrentReviewsPage] = useState(1)
+  const [ratingFilter, setRatingFilter] = useState<number | null>(null)
+  const [categoryFilter, setCategoryFilter] = useState('')
+  const [productFilter, setProductFilter] = useState('')
+  const [sortMode, setSortMode] = useState<ReviewSortMode>('featured')
+  const [photoDrafts, setPhotoDrafts] = useState<ReviewPhotoDraft[]>([])
+  const [processingPhotos, setProcessingPhotos] = useState(false)
+  const [lightbox, setLightbox] = useState<{ images: string[]; index: number; alt: string } | null>(null)
   const [reviewLikeOverrides, setReviewLikeOverrides] = useState<Record<string, { likeCount: number; likedByVisitor: boolean }>>({})
   const openPopupButtonRef = useRef<HTMLButtonElement | null>(null)
   const popupContainerRef = useRef<HTMLDivElement | null>(null)
   const popupFirstInputRef = useRef<HTMLInputElement | null>(null)
+  const photoDraftsRef = useRef<ReviewPhotoDraft[]>([])
 
   useEffect(() => {
     if (!isPopupOpen) return
@@ -103,6 +99,16 @@ export const CustomerReviewsSection = ({
     }
   }, [isPopupOpen])
 
+  useEffect(() => {
+    photoDraftsRef.current = photoDrafts
+  }, [photoDrafts])
+
+  useEffect(() => {
+    return () => {
+      photoDraftsRef.current.forEach((item) => URL.revokeObjectURL(item.url))
+    }
+  }, [])
+
   useEffect(() => {
     if (!isPopupOpen) return
 
@@ -120,8 +126,8 @@ export const CustomerReviewsSection = ({
     }
   }, [isPopupOpen])
 
-  const displayedReviews = useMemo(() => {
-    const withLikes = reviews.map((review) => {
+  const reviewsWithLikes = useMemo(() => {
+    return reviews.map((review) => {
       const override = reviewLikeOverrides[review.id]
       if (!override) return review
 
@@ -131,15 +137,59 @@ export const CustomerReviewsSection = ({
         likedByVisitor: override.likedByVisitor,
       }
     })
-
-    return prioritizeReviews(withLikes)
   }, [reviews, reviewLikeOverrides])
 
   const displayedTotalLikes = useMemo(() => {
     const originalTotal = reviews.reduce((sum, review) => sum + review.likeCount, 0)
-    const newTotal = displayedReviews.reduce((sum, review) => sum + review.likeCount, 0)
+    const newTotal = reviewsWithLikes.reduce((sum, review) => sum + review.likeCount, 0)
     return totalLikes + (newTotal - originalTotal)
-  }, [reviews, displayedReviews, totalLikes])
+  }, [reviews, reviewsWithLikes, totalLikes])
+
+  const reviewCategories = useMemo(() => {
+    const map = new Map<string, string>()
+    reviews.forEach((review) => {
+      const value = review.category.trim()
+      if (!value) return
+      const key = normalizeCategory(value)
+      if (!map.has(key)) map.set(key, value)
+    })
+    return Array.from(map.values()).sort((first, second) =>
+      first.localeCompare(second, 'es', { sensitivity: 'base' })
+    )
+  }, [reviews])
+
+  const reviewedProducts = useMemo(() => {
+    const map = new Map<string, string>()
+    reviews.forEach((review) => {
+      if (!review.productId) return
+      if (categoryFilter && normalizeCategory(review.category) !== normalizeCategory(categoryFilter)) return
+      if (!map.has(review.productId)) map.set(review.productId, review.productName)
+    })
+    return Array.from(map.entries()).sort((first, second) =>
+      first[1].localeCompare(second[1], 'es', { sensitivity: 'base' })
+    )
+  }, [categoryFilter, reviews])
+
+  const displayedReviews = useMemo(() => {
+    const filtered = reviewsWithLikes.filter((review) => {
+      if (ratingFilter !== null && Math.round(review.rating) !== ratingFilter) return false
+      if (categoryFilter && normalizeCategory(review.category) !== normalizeCategory(categoryFilter)) return false
+      if (productFilter && review.productId !== productFilter) return false
+      return true
+    })
+
+    return sortReviews(filtered, sortMode)
+  }, [categoryFilter, productFilter, ratingFilter, reviewsWithLikes, sortMode])
+
+  const maxDistributionCount = Math.max(1, ...Object.values(ratingDistribution))
+  const hasActiveFilters = ratingFilter !== null || Boolean(categoryFilter) || Boolean(productFilter)
+
+  const clearReviewFilters = () => {
+    setRatingFilter(null)
+    setCategoryFilter('')
+    setProductFilter('')
+    setCurrentReviewsPage(1)
+  }
 
   const totalReviewPages = useMemo(() => {
     return Math.max(1, Math.ceil(displayedReviews.length / COMMENTS_PER_PAGE))
@@ -182,13 +232,61 @@ export const CustomerReviewsSection = ({
     [productsByCategory, selectedProductId]
   )
 
+  const closeLightbox = useCallback(() => setLightbox(null), [])
+  const changeLightboxIndex = useCallback(
+    (index: number) => setLightbox((prev) => (prev ? { ...prev, index } : prev)),
+    []
+  )
+
+  const handlePhotosSelected = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? [])
+    if (files.length === 0) return
+
+    const availableSlots = MAX_REVIEW_PHOTOS - photoDrafts.length
+    if (availableSlots <= 0 || files.length > availableSlots) {
+      window.alert(`Puedes adjuntar hasta ${MAX_REVIEW_PHOTOS} fotos`)
+      if (availableSlots <= 0) return
+    }
+
+    setProcessingPhotos(true)
+    const compressed = await Promise.all(files.slice(0, availableSlots).map(compressImage))
+    setProcessingPhotos(false)
+
+    if (compressed.some((file) => !file)) {
+      window.alert('Algunas fotos no se pudieron adjuntar. Usa imágenes JPG o PNG de hasta 10 MB.')
+    }
+
+    const newDrafts = compressed
+      .filter((file): file is File => Boolean(file))
+      .map((file) => ({
+        id: globalThis.crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random()}`,
+        file,
+        url: URL.createObjectURL(file),
+      }))
+    setPhotoDrafts((prev) => [...prev, ...newDrafts])
+  }
+
+  const handleRemovePhoto = (id: string) => {
+    setPhotoDrafts((prev) => {
+      const removed = prev.find((item) => item.id === id)
+      if (removed) URL.revokeObjectURL(removed.url)
+      return prev.filter((item) => item.id !== id)
+    })
+  }
+
+  const closeMyReviews = useCallback(() => setIsMyReviewsOpen(false), [])
+
   const resetForm = () => {
+    photoDrafts.forEach((item) => URL.revokeObjectURL(item.url))
+    setPhotoDrafts([])
     setCustomerName('')
-    setSelectedCategory('')
-    setSelectedProductId('')
+    setSelectedCategory(product?.category ?? '')
+    setSelectedProductId(product?.id ?? '')
     setRating(DEFAULT_REVIEW_RATING)
     setComment('')
     setRecommend(true)
+    setPurchaseCode('')
+    setLimitError(null)
   }
 
   const handleSendReview = async () => {
@@ -197,8 +295,31 @@ export const CustomerReviewsSection = ({
       return
     }
 
+    const submissionLimit = getReviewSubmissionLimit(visitorId, selectedProduct.id)
+    if (submissionLimit) {
+      setLimitError(submissionLimit)
+      return
+    }
+
+    const normalizedPurchaseCode = purchaseCode.trim().toUpperCase()
     setSubmitting(true)
-    const message = await apiService.createReview({
+
+    if (normalizedPurchaseCode) {
+      const verifiedCode = await apiService.verifyPurchaseCode(normalizedPurchaseCode)
+      if (!verifiedCode) {
+        setSubmitting(false)
+        window.alert('El código de compra no es válido o ya fue utilizado')
+        return
+      }
+
+      if (verifiedCode.productId !== selectedProduct.id) {
+        setSubmitting(false)
+        window.alert(`Este código corresponde a otro producto: ${verifiedCode.productName || 'producto no disponible'}`)
+        return
+      }
+    }
+
+    const result = await apiService.createReview({
       customerName: customerName.trim(),
       category: selectedCategory,
       productId: selectedProduct.id,
@@ -206,15 +327,36 @@ export const CustomerReviewsSection = ({
       rating,
       comment: comment.trim(),
       recommend,
+      visitorId,
+      purchaseCode: normalizedPurchaseCode,
     })
-    setSubmitting(false)
 
-    if (!message) {
+    if (!result) {
+      setSubmitting(false)
       window.alert('No se pudo enviar el comentario. Intenta nuevamente.')
       return
     }
 
-    window.alert(message)
+    if ('code' in result) {
+      setSubmitting(false)
+      if (result.code === 'duplicate_product') recordReviewSubmission(visitorId, selectedProduct.id)
+      setLimitError(result)
+      return
+    }
+
+    recordReviewSubmission(visitorId, selectedProduct.id)
+    saveReviewEditToken(result.reviewId, result.editToken)
+
+    let failedUploads = 0
+    for (const photo of photoDrafts) {
+      const url = await apiService.uploadReviewImage(result.reviewId, result.editToken, photo.file)
+      if (!url) failedUploads += 1
+    }
+    setSubmitting(false)
+
+    window.alert(
+      failedUploads > 0 ? `${result.message}\n\nNo se pudieron subir ${failedUploads} foto(s).` : result.message
+    )
     resetForm()
     setIsPopupOpen(false)
     setReviewLikeOverrides({})
@@ -224,6 +366,12 @@ export const CustomerReviewsSection = ({
   const handleToggleLike = async (review: Review) => {
     if (!visitorId) return
 
+    const cooldownLimit = getLikeCooldownLimit(visitorId, review.id)
+    if (cooldownLimit) {
+      window.alert(`${cooldownLimit.message} (${cooldownLimit.retryAfterSeconds} s)`)
+      return
+    }
+
     const nextLikedValue = !review.likedByVisitor
     setLikingReviewId(review.id)
 
@@ -235,6 +383,13 @@ export const CustomerReviewsSection = ({
       return
     }
 
+    if ('code' in updated) {
+      window.alert(updated.retryAfterSeconds > 0 ? `${updated.message} (${updated.retryAfterSeconds} s)` : updated.message)
+      return
+    }
+
+    recordLikeToggle(visitorId, review.id)
+
     setReviewLikeOverrides((prev) => ({
       ...prev,
       [review.id]: {
@@ -248,7 +403,7 @@ export const CustomerReviewsSection = ({
     <section className="mt-10 rounded-2xl border border-gray-200 bg-white p-5 shadow-lg md:p-6">
       <div className="mb-5 flex flex-col gap-2 md:flex-row md:items-end md:justify-between">
         <div>
-          <h2 className="text-2xl font-bold text-gray-900">Opiniones de clientes</h2>
+          <h2 className="text-2xl font-bold text-gray-900">{product ? 'Opiniones de este producto' : 'Opiniones de clientes'}</h2>
           <p className="text-sm text-gray-600">Reseñas verificadas y moderadas para mostrar compras reales.</p>
         </div>
 
@@ -265,19 +420,143 @@ export const CustomerReviewsSection = ({
           <button
             ref={openPopupButtonRef}
             type="button"
-            onClick={() => setIsPopupOpen(true)}
+            onClick={() => {
+              setLimitError(selectedProductId ? getReviewSubmissionLimit(visitorId, selectedProductId) : null)
+              setIsPopupOpen(true)
+            }}
             className="rounded-full border border-primary-500 bg-primary-600 px-3 py-1 text-white transition hover:bg-primary-700"
           >
             ✍️ Dejar comentario
           </button>
+          {visitorId && (
+            <button
+              type="button"
+              onClick={() => setIsMyReviewsOpen(true)}
+              className="rounded-full border border-primary-500 bg-white px-3 py-1 text-primary-700 transition hover:bg-primary-50"
+            >
+              🗂️ Mis reseñas
+            </button>
+          )}
         </div>
       </div>
 
+      {reviews.length > 0 && (
+        <div className="mb-5 grid gap-4 md:grid-cols-[1fr_1.2fr]">
+          <div className="space-y-1.5 rounded-xl border border-gray-200 bg-gray-50/70 p-3">
+            {([5, 4, 3, 2, 1] as const).map((stars) => {
+              const count = ratingDistribution[stars]
+              const isSelected = ratingFilter === stars
+
+              return (
+                <button
+                  key={stars}
+                  type="button"
+                  aria-pressed={isSelected}
+                  onClick={() => {
+                    setRatingFilter(isSelected ? null : stars)
+                    setCurrentReviewsPage(1)
+                  }}
+                  className={`flex w-full items-center gap-2 rounded-lg px-2 py-1 text-xs font-semibold transition ${
+                    isSelected ? 'bg-amber-100 text-amber-900' : 'text-gray-700 hover:bg-white'
+                  }`}
+                >
+                  <span className="w-8 text-left">{stars} ★</span>
+                  <span className="h-2 flex-1 overflow-hidden rounded-full bg-gray-200">
+                    <span
+                      className="block h-full rounded-full bg-amber-500"
+                      style={{ width: `${(count / maxDistributionCount) * 100}%` }}
+                    />
+                  </span>
+                  <span className="w-8 text-right">{count}</span>
+                </button>
+              )
+            })}
+          </div>
+
+          <div className="grid content-start gap-2 sm:grid-cols-2">
+            {!product && (
+              <>
+                <select
+                  value={categoryFilter}
+                  onChange={(event) => {
+                    setCategoryFilter(event.target.value)
+                    setProductFilter('')
+                    setCurrentReviewsPage(1)
+                  }}
+                  aria-label="Filtrar por categoría"
+                  className="h-10 rounded-xl border border-gray-300 bg-white px-3 text-sm outline-none ring-primary-200 focus:ring"
+                >
+                  <option value="">Todas las categorías</option>
+                  {reviewCategories.map((category) => (
+                    <option key={category} value={category}>
+                      {category}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={productFilter}
+                  onChange={(event) => {
+                    setProductFilter(event.target.value)
+                    setCurrentReviewsPage(1)
+                  }}
+                  aria-label="Filtrar por producto"
+                  className="h-10 rounded-xl border border-gray-300 bg-white px-3 text-sm outline-none ring-primary-200 focus:ring"
+                >
+                  <option value="">Todos los productos</option>
+                  {reviewedProducts.map(([productId, productName]) => (
+                    <option key={productId} value={productId}>
+                      {productName}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+            <select
+              value={sortMode}
+              onChange={(event) => {
+                setSortMode(event.target.value as ReviewSortMode)
+                setCurrentReviewsPage(1)
+              }}
+              aria-label="Ordenar reseñas"
+              className="h-10 rounded-xl border border-gray-300 bg-white px-3 text-sm outline-none ring-primary-200 focus:ring"
+            >
+              {REVIEW_SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {hasActiveFilters && (
+              <button
+                type="button"
+                onClick={clearReviewFilters}
+                className="h-10 rounded-xl border border-gray-300 px-3 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                Limpiar filtros
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       {reviews.length === 0 ? (
         <div className="rounded-xl border border-dashed border-gray-300 py-10 text-center">
-          <p className="text-sm font-semibold text-gray-700">Aún no hay reseñas aprobadas</p>
+          <p className="text-sm font-semibold text-gray-700">
+            {product ? 'Este producto aún no tiene reseñas' : 'Aún no hay reseñas aprobadas'}
+          </p>
           <p className="mt-1 text-xs text-gray-600">Sé el primero en compartir tu experiencia de compra.</p>
         </div>
+      ) : displayedReviews.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-gray-300 py-10 text-center">
+          <p className="text-sm font-semibold text-gray-700">Ninguna reseña coincide con los filtros</p>
+          <button
+            type="button"
+            onClick={clearReviewFilters}
+            className="mt-2 text-xs font-semibold text-primary-700 underline"
+          >
+            Limpiar filtros
+          </button>
+        </div>
       ) : (
         <>
           <div className="grid gap-3 md:grid-cols-2">
@@ -292,6 +571,11 @@ export const CustomerReviewsSection = ({
                   <div>
                     <p className="text-sm font-bold text-gray-900">{review.customerName}</p>
                     <p className="text-xs font-semibold text-primary-700">Compra: {review.productName}</p>
+                    {review.verifiedPurchase && (
+                      <span className="mt-1 inline-flex rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-bold text-emerald-700">
+                        ✔ Compra verificada
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center gap-2">
                     <span className="rounded-full bg-white px-2 py-1 text-xs font-semibold text-rose-600">
@@ -314,6 +598,27 @@ export const CustomerReviewsSection = ({
 
                 <div className="mb-2 flex items-center gap-1 text-sm">{renderStars(review.rating)}</div>
                 <p className="text-sm text-gray-700">“{review.comment}”</p>
+                {review.images.length > 0 && (
+                  <div className="mt-3 flex gap-2">
+                    {review.images.map((image, index) => (
+                      <button
+                        key={image}
+                        type="button"
+                        aria-label={`Ver foto ${index + 1} de ${review.customerName}`}
+                        onClick={() => setLightbox({ images: review.images, index, alt: `Foto de ${review.customerName}` })}
+                        className="h-16 w-16 overflow-hidden rounded-lg border border-gray-200 transition hover:opacity-80"
+                      >
+                        <img src={image} alt="" loading="lazy" className="h-full w-full object-cover" />
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {review.reply && (
+                  <div className="mt-3 rounded-lg border-l-4 border-primary-400 bg-white px-3 py-2">
+                    <p className="text-xs font-bold text-primary-700">Respuesta de {storeName}</p>
+                    <p className="text-sm text-gray-700">{review.reply.text}</p>
+                  </div>
+                )}
               </article>
             )
             })}
@@ -399,41 +704,53 @@ export const CustomerReviewsSection = ({
                 />
               </label>
 
-              <label className="block">
-                <span className="mb-1 block text-sm font-semibold text-gray-700">Categoría comprada</span>
-                <select
-                  value={selectedCategory}
-                  onChange={(event) => {
-                    setSelectedCategory(event.target.value)
-                    setSelectedProductId('')
-                  }}
-                  className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm outline-none ring-primary-200 focus:ring"
-                >
-                  <option value="">Selecciona categoría</option>
-                  {categories.map((category) => (
-                    <option key={category} value={category}>
-                      {category}
-                    </option>
-                  ))}
-                </select>
-              </label>
-
-              <label className="block">
-                <span className="mb-1 block text-sm font-semibold text-gray-700">Producto comprado</span>
-                <select
-                  value={selectedProductId}
-                  onChange={(event) => setSelectedProductId(event.target.value)}
-                  disabled={!selectedCategory}
-                  className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm outline-none ring-primary-200 focus:ring disabled:bg-gray-100"
-                >
-                  <option value="">Selecciona producto</option>
-                  {productsByCategory.map((product) => (
-                    <option key={product.id} value={product.id}>
-                      {product.name}
-                    </option>
-                  ))}
-                </select>
-              </label>
+              {product ? (
+                <p className="rounded-xl border border-primary-200 bg-primary-50 px-3 py-2 text-sm font-semibold text-primary-800">
+                  Producto: {product.name}
+                </p>
+              ) : (
+                <>
+                  <label className="block">
+                    <span className="mb-1 block text-sm font-semibold text-gray-700">Categoría comprada</span>
+                    <select
+                      value={selectedCategory}
+                      onChange={(event) => {
+                        setSelectedCategory(event.target.value)
+                        setSelectedProductId('')
+                        setLimitError(null)
+                      }}
+                      className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm outline-none ring-primary-200 focus:ring"
+                    >
+                      <option value="">Selecciona categoría</option>
+                      {categories.map((category) => (
+                        <option key={category} value={category}>
+                          {category}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="block">
+                    <span className="mb-1 block text-sm font-semibold text-gray-700">Producto comprado</span>
+                    <select
+                      value={selectedProductId}
+                      onChange={(event) => {
+                        setSelectedProductId(event.target.value)
+                        setLimitError(event.target.value ? getReviewSubmissionLimit(visitorId, event.target.value) : null)
+                      }}
+                      disabled={!selectedCategory}
+                      className="w-full rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm outline-none ring-primary-200 focus:ring disabled:bg-gray-100"
+                    >
+                      <option value="">Selecciona producto</option>
+                      {productsByCategory.map((item) => (
+                        <option key={item.id} value={item.id}>
+                          {item.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </>
+              )}
 
               <label className="block">
                 <span className="mb-1 block text-sm font-semibold text-gray-700">Calificación</span>
@@ -460,6 +777,56 @@ export const CustomerReviewsSection = ({
                 />
               </label>
 
+              <div>
+                <span className="mb-1 block text-sm font-semibold text-gray-700">
+                  Fotos (opcional, máximo {MAX_REVIEW_PHOTOS})
+                </span>
+                <div className="flex flex-wrap items-center gap-2">
+                  {photoDrafts.map((photo) => (
+                    <div key={photo.id} className="relative h-16 w-16 overflow-hidden rounded-lg border border-gray-200">
+                      <img src={photo.url} alt="" className="h-full w-full object-cover" />
+                      <button
+                        type="button"
+                        aria-label="Quitar foto"
+                        onClick={() => handleRemovePhoto(photo.id)}
+                        className="absolute right-0.5 top-0.5 flex h-5 w-5 items-center justify-center rounded-full bg-black/70 text-[10px] text-white"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                  {photoDrafts.length < MAX_REVIEW_PHOTOS && (
+                    <label className="flex h-16 w-16 cursor-pointer items-center justify-center rounded-lg border border-dashed border-gray-400 text-xl text-gray-500 hover:border-primary-500 hover:text-primary-600">
+                      {processingPhotos ? '…' : '📷'}
+                      <input
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        disabled={processingPhotos}
+                        onChange={(event) => {
+                          void handlePhotosSelected(event.target.files)
+                          event.target.value = ''
+                        }}
+                        className="hidden"
+                      />
+                    </label>
+                  )}
+                </div>
+              </div>
+
+              <label className="block">
+                <span className="mb-1 block text-sm font-semibold text-gray-700">Código de compra (opcional)</span>
+                <input
+                  value={purchaseCode}
+                  onChange={(event) => setPurchaseCode(event.target.value.toUpperCase())}
+                  placeholder="Ej: FL-8K2M4Q"
+                  className="w-full rounded-xl border border-gray-300 px-3 py-2 text-sm uppercase outline-none ring-primary-200 focus:ring"
+                />
+                <span className="mt-1 block text-xs text-gray-500">
+                  Si compraste por WhatsApp, usa el código que te enviamos para mostrar la insignia de compra verificada.
+                </span>
+              </label>
+
               <label className="flex items-center gap-2 rounded-xl border border-gray-300 bg-gray-50 px-3 py-2">
                 <input type="checkbox" checked={recommend} onChange={() => setRecommend((prev) => !prev)} />
                 <span className="text-sm font-semibold text-gray-700">Recomiendo esta tienda</span>
@@ -469,10 +836,16 @@ export const CustomerReviewsSection = ({
                 Tu comentario será verificado por seguridad antes de mostrarse públicamente.
               </p>
 
+              {limitError && (
+                <p role="alert" className="rounded-xl border border-rose-300 bg-rose-50 px-3 py-2 text-xs font-semibold text-rose-700">
+                  {limitError.message}
+                </p>
+              )}
+
               <button
                 type="button"
                 onClick={() => void handleSendReview()}
-                disabled={submitting}
+                disabled={submitting || processingPhotos || Boolean(limitError)}
                 className="w-full rounded-xl bg-primary-600 px-4 py-2.5 text-sm font-bold text-white transition hover:bg-primary-700 disabled:opacity-60"
               >
                 {submitting ? 'Enviando...' : 'Enviar comentario'}
@@ -481,6 +854,20 @@ export const CustomerReviewsSection = ({
           </div>
         </div>
       )}
+
+      {isMyReviewsOpen && (
+        <MyReviewsPanel visitorId={visitorId} onClose={closeMyReviews} onChanged={onReviewSent} />
+      )}
+
+      {lightbox && (
+        <ImageLightbox
+          images={lightbox.images}
+          index={lightbox.index}
+          alt={lightbox.alt}
+          onClose={closeLightbox}
+          onIndexChange={changeLightboxIndex}
+        />
+      )}
     </section>
   )
 }
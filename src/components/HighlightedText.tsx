@@ -0,0 +1,24 @@
+import { getHighlightSegments } from '../utils/productSearch'
+
+interface HighlightedTextProps {
+  text: string
+  query?: string
+}
+
+export const HighlightedText = ({ text, query = '' }: HighlightedTextProps) => {
+  if (!query.trim()) return <>{text}</>
+
+  return (
+    <>
+      {getHighlightSegments(text, query).map((segment, index) =>
+        segment.isMatch ? (
+          <mark key={index} className="rounded bg-amber-200 px-0.5 text-inherit">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  )
+}
@@ -0,0 +1,83 @@
+import { useEffect } from 'react'
+import { createPortal } from 'react-dom'
+
+interface ImageLightboxProps {
+  images: string[]
+  index: number
+  alt: string
+  onClose: () => void
+  onIndexChange: (index: number) => void
+}
+
+export const ImageLightbox = ({ images, index, alt, onClose, onIndexChange }: ImageLightboxProps) => {
+  const hasMultipleImages = images.length > 1
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+      if (!hasMultipleImages) return
+      if (event.key === 'ArrowRight') onIndexChange((index + 1) % images.length)
+      if (event.key === 'ArrowLeft') onIndexChange((index - 1 + images.length) % images.length)
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [hasMultipleImages, images.length, index, onClose, onIndexChange])
+
+  return createPortal(
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={alt}
+      onClick={onClose}
+      className="fixed inset-0 z-60 flex items-center justify-center bg-black/85 p-4"
+    >
+      <img
+        src={images[index]}
+        alt={`${alt} - foto ${index + 1}`}
+        onClick={(event) => event.stopPropagation()}
+        className="max-h-[85vh] max-w-full rounded-xl object-contain shadow-2xl"
+      />
+
+      <button
+        type="button"
+        aria-label="Cerrar"
+        onClick={onClose}
+        className="absolute right-4 top-4 flex h-10 w-10 items-center justify-center rounded-full bg-white/90 text-lg font-bold text-gray-800"
+      >
+        ✕
+      </button>
+
+      {hasMultipleImages && (
+        <>
+          <button
+            type="button"
+            aria-label="Foto anterior"
+            onClick={(event) => {
+              event.stopPropagation()
+              onIndexChange((index - 1 + images.length) % images.length)
+            }}
+            className="absolute left-4 top-1/2 flex h-10 w-10 -translate-y-1/2 items-center justify-center rounded-full bg-white/90 text-xl font-bold text-gray-800"
+          >
+            ‹
+          </button>
+          <button
+            type="button"
+            aria-label="Foto siguiente"
+            onClick={(event) => {
+              event.stopPropagation()
+              onIndexChange((index + 1) % images.length)
+            }}
+            className="absolute right-4 top-1/2 flex h-10 w-10 -translate-y-1/2 items-center justify-center rounded-full bg-white/90 text-xl font-bold text-gray-800"
+          >
+            ›
+          </button>
+          <span className="absolute bottom-4 rounded-full bg-black/60 px-3 py-1 text-xs font-semibold text-white">
+            {index + 1} / {images.length}
+          </span>
+        </>
+      )}
+    </div>,
+    document.body
+  )
+}
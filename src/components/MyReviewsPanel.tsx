@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react'
+import { apiService } from '../services/api'
+import type { Review } from '../types/review'
+import { forgetReviewEditToken, readReviewEditToken } from '../utils/reviewEditTokens'
+
+interface MyReviewsPanelProps {
+  visitorId: string
+  onClose: () => void
+  onChanged: () => Promise<void> | void
+}
+
+interface ReviewDraft {
+  customerName: string
+  rating: number
+  comment: string
+  recommend: boolean
+}
+
+const STATUS_LABELS: Record<Review['status'], { label: string; className: string }> = {
+  pending: { label: 'En revisión', className: 'bg-amber-100 text-amber-800' },
+  approved: { label: 'Publicado', className: 'bg-emerald-100 text-emerald-700' },
+  rejected: { label: 'Rechazado', className: 'bg-rose-100 text-rose-700' },
+}
+
+export const MyReviewsPanel = ({ visitorId, onClose, onChanged }: MyReviewsPanelProps) => {
+  const [reviews, setReviews] = useState<Review[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editingReviewId, setEditingReviewId] = useState('')
+  const [draft, setDraft] = useState<ReviewDraft | null>(null)
+  const [savingReviewId, setSavingReviewId] = useState('')
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadReviews = async () => {
+      const fetchedReviews = await apiService.getVisitorReviews(visitorId)
+      if (!isMounted) return
+      setReviews(fetchedReviews)
+      setLoading(false)
+    }
+
+    void loadReviews()
+
+    return () => {
+      isMounted = false
+    }
+  }, [visitorId])
+
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [onClose])
+
+  const startEditing = (review: Review) => {
+    setEditingReviewId(review.id)
+    setDraft({
+      customerName: review.customerName,
+      rating: review.rating,
+      comment: review.comment,
+      recommend: review.recommend,
+    })
+  }
+
+  const stopEditing = () => {
+    setEditingReviewId('')
+    setDraft(null)
+  }
+
+  const handleSave = async (review: Review) => {
+    if (!draft || !draft.customerName.trim() || !draft.comment.trim()) {
+      window.alert('Completa tu nombre y el comentario')
+      return
+    }
+
+    if (review.status === 'approved') {
+      const confirmed = window.confirm('Tu reseña volverá a revisión antes de mostrarse nuevamente. ¿Deseas continuar?')
+      if (!confirmed) return
+    }
+
+    const customerName = draft.customerName.trim()
+    const comment = draft.comment.trim()
+
+    setSavingReviewId(review.id)
+    const updated = await apiService.updateOwnReview(review.id, readReviewEditToken(review.id), {
+      customerName,
+      rating: draft.rating,
+      comment,
+      recommend: draft.recommend,
+    })
+    setSavingReviewId('')
+
+    if (!updated) {
+      window.alert('No se pudo actualizar tu reseña. Intenta nuevamente.')
+      return
+    }
+
+    setReviews((prev) => prev.map((item) => (item.id === review.id ? { ...updated, status: 'pending' } : item)))
+    stopEditing()
+    await onChanged()
+  }
+
+  const handleDelete = async (review: Review) => {
+    const confirmed = window.confirm('¿Deseas eliminar esta reseña? Esta acción no se puede deshacer y no podrás publicar otra reseña para este producto.')
+    if (!confirmed) return
+
+    setSavingReviewId(review.id)
+    const deleted = await apiService.deleteOwnReview(review.id, readReviewEditToken(review.id))
+    setSavingReviewId('')
+
+    if (!deleted) {
+      window.alert('No se pudo eliminar tu reseña. Intenta nuevamente.')
+      return
+    }
+
+    forgetReviewEditToken(review.id)
+    setReviews((prev) => prev.filter((item) => item.id !== review.id))
+    if (editingReviewId === review.id) stopEditing()
+    await onChanged()
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Mis reseñas"
+        onClick={(event) => event.stopPropagation()}
+        className="flex max-h-[85vh] w-full max-w-2xl flex-col rounded-2xl bg-white p-5 shadow-2xl"
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-gray-900">Mis reseñas</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg border border-gray-300 px-2 py-1 text-xs font-semibold text-gray-600"
+          >
+            Cerrar
+          </button>
+        </div>
+
+        <div className="space-y-3 overflow-y-auto">
+          {loading ? (
+            <p className="py-10 text-center text-sm text-gray-600">Cargando tus reseñas...</p>
+          ) : reviews.length === 0 ? (
+            <p className="rounded-xl border border-dashed border-gray-300 py-10 text-center text-sm text-gray-600">
+              Aún no has publicado reseñas desde este dispositivo.
+            </p>
+          ) : (
+            reviews.map((review) => {
+              const status = STATUS_LABELS[review.status]
+              const isEditing = editingReviewId === review.id && draft
+              const isSaving = savingReviewId === review.id
+              const canManage = Boolean(readReviewEditToken(review.id))
+
+              return (
+                <article key={review.id} className="rounded-xl border border-gray-200 bg-gray-50 p-4">
+                  <div className="mb-2 flex items-start justify-between gap-2">
+                    <div>
+                      <p className="text-sm font-bold text-gray-900">{review.productName}</p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(review.createdAt).toLocaleDateString('es-EC')}
+                        {review.verifiedPurchase && <span className="font-semibold text-emerald-700"> · ✔ Compra verificada</span>}
+                      </p>
+                    </div>
+                    <span className={`rounded-full px-3 py-1 text-xs font-bold ${status.className}`}>{status.label}</span>
+                  </div>
+
+                  {isEditing ? (
+                    <div className="space-y-2">
+                      <input
+                        value={draft.customerName}
+                        onChange={(event) => setDraft({ ...draft, customerName: event.target.value })}
+                        aria-label="Tu nombre"
+                        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm outline-none ring-primary-200 focus:ring"
+                      />
+                      <select
+                        value={draft.rating}
+                        onChange={(event) => setDraft({ ...draft, rating: Number(event.target.value) })}
+                        aria-label="Calificación"
+                        className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm outline-none ring-primary-200 focus:ring"
+                      >
+                        {[5, 4, 3, 2, 1].map((value) => (
+                          <option key={value} value={value}>
+                            {value} estrella{value > 1 ? 's' : ''}
+                          </option>
+                        ))}
+                      </select>
+                      <textarea
+                        value={draft.comment}
+                        onChange={(event) => setDraft({ ...draft, comment: event.target.value })}
+                        aria-label="Comentario"
+                        rows={3}
+                        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm outline-none ring-primary-200 focus:ring"
+                      />
+                      <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={draft.recommend}
+                          onChange={() => setDraft({ ...draft, recommend: !draft.recommend })}
+                        />
+                        Recomiendo esta tienda
+                      </label>
+                      {review.status === 'approved' && (
+                        <p className="text-xs text-amber-700">Al guardar, tu reseña volverá a revisión.</p>
+                      )}
+                      <div className="flex gap-2">
+                        <button
+                          type="button"
+                          disabled={isSaving}
+                          onClick={() => void handleSave(review)}
+                          className="rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-primary-700 disabled:opacity-60"
+                        >
+                          {isSaving ? 'Guardando...' : 'Guardar cambios'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={stopEditing}
+                          className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-semibold text-gray-700 hover:bg-white"
+                        >
+                          Cancelar
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <>
+                      <p className="mb-1 text-xs text-gray-500">⭐ {review.rating}/5</p>
+                      <p className="text-sm text-gray-700">“{review.comment}”</p>
+                      {canManage ? (
+                        <div className="mt-3 flex gap-2">
+                          {review.status !== 'rejected' && (
+                            <button
+                              type="button"
+                              disabled={isSaving}
+                              onClick={() => startEditing(review)}
+                              className="rounded-lg border border-primary-500 px-3 py-1.5 text-xs font-semibold text-primary-700 hover:bg-primary-50 disabled:opacity-60"
+                            >
+                              Editar
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            disabled={isSaving}
+                            onClick={() => void handleDelete(review)}
+                            className="rounded-lg border border-rose-400 px-3 py-1.5 text-xs font-semibold text-rose-700 hover:bg-rose-50 disabled:opacity-60"
+                          >
+                            Eliminar
+                          </button>
+                        </div>
+                      ) : (
+                        <p className="mt-3 text-xs text-gray-500">Esta reseña solo puede modificarse desde el dispositivo en que se envió.</p>
+                      )}
+                    </>
+                  )}
+                </article>
+              )
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
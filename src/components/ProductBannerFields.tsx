@@ -0,0 +1,53 @@
+interface ProductBannerFieldsProps {
+  showInBanner: boolean
+  bannerOrder: string
+  bannerText: string
+  onShowInBannerChange: (value: boolean) => void
+  onBannerOrderChange: (value: string) => void
+  onBannerTextChange: (value: string) => void
+}
+
+export const ProductBannerFields = ({
+  showInBanner,
+  bannerOrder,
+  bannerText,
+  onShowInBannerChange,
+  onBannerOrderChange,
+  onBannerTextChange,
+}: ProductBannerFieldsProps) => {
+  return (
+    <div className="space-y-3 rounded-xl border border-amber-300 bg-amber-50 px-4 py-3">
+      <label className="flex items-center gap-3">
+        <input type="checkbox" checked={showInBanner} onChange={() => onShowInBannerChange(!showInBanner)} />
+        <span className="text-sm font-semibold text-amber-800">Mostrar en banner de novedades</span>
+      </label>
+
+      {showInBanner && (
+        <div className="grid gap-3 md:grid-cols-[120px_1fr]">
+          <label className="block">
+            <span className="mb-1 block text-xs font-semibold text-amber-900">Orden</span>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={bannerOrder}
+              onChange={(event) => onBannerOrderChange(event.target.value)}
+              placeholder="1"
+              className="h-10 w-full rounded-lg border border-amber-300 bg-white px-3 text-sm outline-none ring-amber-200 focus:ring"
+            />
+          </label>
+          <label className="block">
+            <span className="mb-1 block text-xs font-semibold text-amber-900">Texto personalizado</span>
+            <input
+              value={bannerText}
+              onChange={(event) => onBannerTextChange(event.target.value)}
+              maxLength={120}
+              placeholder="Vacío = Nuevo ingreso: nombre por $precio"
+              className="h-10 w-full rounded-lg border border-amber-300 bg-white px-3 text-sm outline-none ring-amber-200 focus:ring"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,18 +1,58 @@
 import type { Product } from '../types/product'
+import { HighlightedText } from './HighlightedText'
+import { getDiscountPercent, getEffectivePrice } from '../utils/productPricing'
+import { getStockStatus } from '../utils/productStock'
+import { getProductPriceRange, hasVariants } from '../utils/productVariants'
+import type { ReviewSummary } from '../utils/reviews'
+import { formatPrice } from '../utils/whatsapp'
 
 interface ProductCardProps {
   product: Product
+  rating?: ReviewSummary
+  highlightQuery?: string
   onView: () => void
   onContact: () => void
+  onAddToCart: () => void
 }
 
-export const ProductCard = ({ product, onView, onContact }: ProductCardProps) => {
+export const ProductCard = ({
+  product,
+  rating,
+  highlightQuery = '',
+  onView,
+  onContact,
+  onAddToCart,
+}: ProductCardProps) => {
   const hasDescription = product.description.trim().length > 0
+  const requiresVariant = hasVariants(product)
+  const priceRange = getProductPriceRange(product)
+  const discountPercent = getDiscountPercent(product)
+  const stockStatus = getStockStatus(product)
+  const isSoldOut = stockStatus === 'out'
 
   return (
     <article className="overflow-hidden rounded-2xl border border-primary-200/50 bg-white shadow-lg transition hover:-translate-y-1 hover:shadow-xl">
       <div className="relative">
-        <img src={product.image} alt={product.name} className="h-52 w-full object-cover" />
+        <img
+          src={product.image}
+          alt={product.name}
+          className={`h-52 w-full object-cover ${isSoldOut ? 'opacity-60 grayscale' : ''}`}
+        />
+        {isSoldOut && (
+          <span className="absolute left-3 top-3 rounded-full bg-gray-900 px-3 py-1 text-xs font-bold text-white">
+            AGOTADO
+          </span>
+        )}
+        {stockStatus === 'low' && (
+          <span className="absolute left-3 top-3 rounded-full bg-amber-500 px-3 py-1 text-xs font-bold text-slate-900">
+            ÚLTIMAS UNIDADES
+          </span>
+        )}
+        {discountPercent > 0 && (
+          <span className="absolute bottom-3 right-3 rounded-full bg-rose-600 px-3 py-1 text-xs font-bold text-white">
+            -{discountPercent}%
+          </span>
+        )}
         {product.isNew && (
           <span className="absolute right-3 top-3 rounded-full bg-pink-500 px-3 py-1 text-xs font-bold text-white">
             NUEVO
@@ -22,13 +62,40 @@ export const ProductCard = ({ product, onView, onContact }: ProductCardProps) =>
 
       <div className="space-y-3 p-5">
         <div className="flex items-center justify-between gap-2">
-          <p className="text-xs font-semibold uppercase tracking-wider text-primary-600">{product.category}</p>
-          <p className="text-xl font-bold text-gray-900">${product.price}</p>
+          <p className="text-xs font-semibold uppercase tracking-wider text-primary-600">
+            <HighlightedText text={product.category} query={highlightQuery} />
+          </p>
+          <p className="text-right text-xl font-bold text-gray-900">
+            {priceRange.min !== priceRange.max && <span className="mr-1 text-xs font-semibold text-gray-500">Desde</span>}
+            {discountPercent > 0 && (
+              <span className="mr-1 text-sm font-semibold text-gray-400 line-through">${formatPrice(priceRange.min)}</span>
+            )}
+            <span className={discountPercent > 0 ? 'text-rose-600' : ''}>
+              ${formatPrice(getEffectivePrice(product, priceRange.min))}
+            </span>
+          </p>
         </div>
 
-        <h3 className="line-clamp-1 text-lg font-bold text-gray-900">{product.name}</h3>
+        <h3 className="line-clamp-1 text-lg font-bold text-gray-900">
+          <HighlightedText text={product.name} query={highlightQuery} />
+        </h3>
+        {rating && rating.totalReviews > 0 && (
+          <p className="flex items-center gap-1 text-xs font-semibold text-gray-600">
+            <span aria-hidden="true" className="text-amber-500">
+              {'★'.repeat(Math.round(rating.averageRating))}
+              <span className="text-gray-300">{'★'.repeat(5 - Math.round(rating.averageRating))}</span>
+            </span>
+            <span>
+              {rating.averageRating.toFixed(1)} ({rating.totalReviews} {rating.totalReviews === 1 ? 'reseña' : 'reseñas'})
+            </span>
+          </p>
+        )}
         <p className="min-h-12 line-clamp-2 text-sm text-gray-600">
-          {hasDescription ? product.description : 'Descripción breve no disponible'}
+          {hasDescription ? (
+            <HighlightedText text={product.description} query={highlightQuery} />
+          ) : (
+            'Descripción breve no disponible'
+          )}
         </p>
 
         <div className="flex gap-2 pt-1">
@@ -42,11 +109,20 @@ export const ProductCard = ({ product, onView, onContact }: ProductCardProps) =>
           <button
             type="button"
             onClick={onContact}
-            className="flex-1 rounded-xl bg-primary-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-primary-700"
+            disabled={isSoldOut}
+            className="flex-1 rounded-xl bg-primary-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-primary-700 disabled:cursor-not-allowed disabled:opacity-50"
           >
             Contactar
           </button>
         </div>
+        <button
+          type="button"
+          onClick={onAddToCart}
+          disabled={isSoldOut}
+          className="w-full rounded-xl border border-emerald-500 px-3 py-2 text-sm font-semibold text-emerald-700 transition hover:bg-emerald-50 disabled:cursor-not-allowed disabled:border-gray-300 disabled:text-gray-500 disabled:hover:bg-transparent"
+        >
+          {isSoldOut ? 'Agotado' : requiresVariant ? '🎨 Elegir opciones' : '🛒 Agregar al carrito'}
+        </button>
       </div>
     </article>
   )
@@ -0,0 +1,150 @@
+import { useRef, useState } from 'react'
+import type { MouseEvent, TouchEvent } from 'react'
+
+interface ProductGalleryProps {
+  images: string[]
+  alt: string
+  dimmed?: boolean
+}
+
+const SWIPE_THRESHOLD = 50
+const HOVER_ZOOM_SCALE = 2
+const MAX_PINCH_SCALE = 3
+
+const getTouchDistance = (event: TouchEvent<HTMLDivElement>) => {
+  const [first, second] = [event.touches[0], event.touches[1]]
+  return Math.hypot(first.clientX - second.clientX, first.clientY - second.clientY)
+}
+
+export const ProductGallery = ({ images, alt, dimmed = false }: ProductGalleryProps) => {
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [zoomOrigin, setZoomOrigin] = useState<{ x: number; y: number } | null>(null)
+  const [pinchScale, setPinchScale] = useState(1)
+  const touchStartXRef = useRef<number | null>(null)
+  const pinchStartRef = useRef<{ distance: number; scale: number } | null>(null)
+
+  const safeIndex = Math.min(activeIndex, Math.max(0, images.length - 1))
+  const hasMultipleImages = images.length > 1
+
+  const goTo = (index: number) => {
+    if (images.length === 0) return
+    setActiveIndex((index + images.length) % images.length)
+    setPinchScale(1)
+    setZoomOrigin(null)
+  }
+
+  const handleMouseMove = (event: MouseEvent<HTMLDivElement>) => {
+    if (!window.matchMedia('(hover: hover)').matches) return
+
+    const bounds = event.currentTarget.getBoundingClientRect()
+    setZoomOrigin({
+      x: ((event.clientX - bounds.left) / bounds.width) * 100,
+      y: ((event.clientY - bounds.top) / bounds.height) * 100,
+    })
+  }
+
+  const handleTouchStart = (event: TouchEvent<HTMLDivElement>) => {
+    if (event.touches.length === 2) {
+      pinchStartRef.current = { distance: getTouchDistance(event), scale: pinchScale }
+      touchStartXRef.current = null
+      return
+    }
+
+    touchStartXRef.current = pinchScale === 1 ? event.touches[0].clientX : null
+  }
+
+  const handleTouchMove = (event: TouchEvent<HTMLDivElement>) => {
+    if (event.touches.length !== 2 || !pinchStartRef.current) return
+
+    const ratio = getTouchDistance(event) / pinchStartRef.current.distance
+    setPinchScale(Math.min(MAX_PINCH_SCALE, Math.max(1, pinchStartRef.current.scale * ratio)))
+  }
+
+  const handleTouchEnd = (event: TouchEvent<HTMLDivElement>) => {
+    if (pinchStartRef.current && event.touches.length < 2) {
+      pinchStartRef.current = null
+      return
+    }
+
+    const startX = touchStartXRef.current
+    touchStartXRef.current = null
+    if (startX === null || !hasMultipleImages) return
+
+    const deltaX = event.changedTouches[0].clientX - startX
+    if (Math.abs(deltaX) < SWIPE_THRESHOLD) return
+    goTo(deltaX < 0 ? safeIndex + 1 : safeIndex - 1)
+  }
+
+  const scale = pinchScale > 1 ? pinchScale : zoomOrigin ? HOVER_ZOOM_SCALE : 1
+
+  return (
+    <div className="flex h-full w-full flex-col">
+      <div
+        className="relative min-h-0 flex-1 touch-pan-y overflow-hidden bg-gray-100"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setZoomOrigin(null)}
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+        onDoubleClick={() => setPinchScale((prev) => (prev > 1 ? 1 : HOVER_ZOOM_SCALE))}
+      >
+        <img
+          key={images[safeIndex]}
+          src={images[safeIndex]}
+          alt={`${alt} - foto ${safeIndex + 1}`}
+          draggable={false}
+          style={{
+            transform: `scale(${scale})`,
+            transformOrigin: zoomOrigin ? `${zoomOrigin.x}% ${zoomOrigin.y}%` : 'center',
+          }}
+          className={`h-full w-full select-none object-cover transition-transform duration-150 md:cursor-zoom-in ${
+            dimmed ? 'opacity-60 grayscale' : ''
+          }`}
+        />
+
+        {hasMultipleImages && (
+          <>
+            <button
+              type="button"
+              aria-label="Foto anterior"
+              onClick={() => goTo(safeIndex - 1)}
+              className="absolute left-3 top-1/2 hidden h-9 w-9 -translate-y-1/2 items-center justify-center rounded-full bg-white/85 text-lg font-bold text-gray-800 shadow md:flex"
+            >
+              ‹
+            </button>
+            <button
+              type="button"
+              aria-label="Foto siguiente"
+              onClick={() => goTo(safeIndex + 1)}
+              className="absolute right-3 top-1/2 hidden h-9 w-9 -translate-y-1/2 items-center justify-center rounded-full bg-white/85 text-lg font-bold text-gray-800 shadow md:flex"
+            >
+              ›
+            </button>
+            <span className="absolute bottom-3 right-3 rounded-full bg-black/60 px-2 py-0.5 text-xs font-semibold text-white">
+              {safeIndex + 1} / {images.length}
+            </span>
+          </>
+        )}
+      </div>
+
+      {hasMultipleImages && (
+        <div className="flex gap-2 overflow-x-auto bg-white px-3 py-2">
+          {images.map((image, index) => (
+            <button
+              key={image}
+              type="button"
+              aria-label={`Ver foto ${index + 1}`}
+              aria-current={index === safeIndex}
+              onClick={() => goTo(index)}
+              className={`h-14 w-14 shrink-0 overflow-hidden rounded-lg border-2 transition ${
+                index === safeIndex ? 'border-primary-500' : 'border-transparent opacity-70 hover:opacity-100'
+              }`}
+            >
+              <img src={image} alt="" className="h-full w-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
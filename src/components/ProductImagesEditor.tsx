@@ -0,0 +1,187 @@
+import { useEffect, useRef, useState } from 'react'
+
+export interface ProductImageDraft {
+  id: string
+  url: string
+  file: File | null
+}
+
+interface ProductImagesEditorProps {
+  inputId: string
+  images: ProductImageDraft[]
+  onChange: (images: ProductImageDraft[]) => void
+}
+
+const MAX_PRODUCT_IMAGES = 8
+
+const createDraftId = () => globalThis.crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random()}`
+
+export const ProductImagesEditor = ({ inputId, images, onChange }: ProductImagesEditorProps) => {
+  const [draggingId, setDraggingId] = useState('')
+  const objectUrlsRef = useRef<string[]>([])
+
+  useEffect(() => {
+    return () => {
+      objectUrlsRef.current.forEach((url) => URL.revokeObjectURL(url))
+    }
+  }, [])
+
+  const handleFilesSelected = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []).filter((file) => file.type.startsWith('image/'))
+    if (files.length === 0) return
+
+    const availableSlots = MAX_PRODUCT_IMAGES - images.length
+    if (availableSlots <= 0) {
+      window.alert(`Puedes subir hasta ${MAX_PRODUCT_IMAGES} fotos por producto`)
+      return
+    }
+
+    if (files.length > availableSlots) {
+      window.alert(`Solo se agregarán ${availableSlots} fotos (máximo ${MAX_PRODUCT_IMAGES})`)
+    }
+
+    const newDrafts = files.slice(0, availableSlots).map((file) => {
+      const url = URL.createObjectURL(file)
+      objectUrlsRef.current = [...objectUrlsRef.current, url]
+      return { id: createDraftId(), url, file }
+    })
+
+    onChange([...images, ...newDrafts])
+  }
+
+  const handleRemove = (id: string) => {
+    const removed = images.find((image) => image.id === id)
+    if (removed?.file) {
+      URL.revokeObjectURL(removed.url)
+      objectUrlsRef.current = objectUrlsRef.current.filter((url) => url !== removed.url)
+    }
+
+    onChange(images.filter((image) => image.id !== id))
+  }
+
+  const moveImage = (fromId: string, toId: string) => {
+    if (fromId === toId) return
+
+    const fromIndex = images.findIndex((image) => image.id === fromId)
+    const toIndex = images.findIndex((image) => image.id === toId)
+    if (fromIndex < 0 || toIndex < 0) return
+
+    const nextImages = [...images]
+    const [moved] = nextImages.splice(fromIndex, 1)
+    nextImages.splice(toIndex, 0, moved)
+    onChange(nextImages)
+  }
+
+  const moveImageBy = (id: string, offset: number) => {
+    const index = images.findIndex((image) => image.id === id)
+    const target = images[index + offset]
+    if (target) moveImage(id, target.id)
+  }
+
+  return (
+    <div className="space-y-3">
+      <input
+        id={inputId}
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={(event) => {
+          handleFilesSelected(event.target.files)
+          event.target.value = ''
+        }}
+        className="hidden"
+      />
+      <div className="flex flex-wrap items-center gap-3">
+        <label
+          htmlFor={inputId}
+          className="inline-flex cursor-pointer items-center gap-2 rounded-xl bg-primary-600 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-primary-700"
+        >
+          📸 Agregar fotos
+        </label>
+        <p className="text-xs text-gray-600">
+          {images.length === 0
+            ? 'Ningún archivo seleccionado'
+            : `${images.length} de ${MAX_PRODUCT_IMAGES} fotos · arrastra para ordenar`}
+        </p>
+      </div>
+
+      {images.length === 0 ? (
+        <div className="flex h-56 items-center justify-center rounded-2xl border border-dashed border-gray-300 text-gray-500">
+          Sin imagen seleccionada
+        </div>
+      ) : (
+        <ul className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          {images.map((image, index) => {
+            const isCover = index === 0
+
+            return (
+              <li
+                key={image.id}
+                draggable
+                onDragStart={() => setDraggingId(image.id)}
+                onDragOver={(event) => event.preventDefault()}
+                onDrop={(event) => {
+                  event.preventDefault()
+                  moveImage(draggingId, image.id)
+                  setDraggingId('')
+                }}
+                onDragEnd={() => setDraggingId('')}
+                className={`group relative overflow-hidden rounded-xl border-2 bg-white ${
+                  isCover ? 'border-primary-500' : 'border-gray-200'
+                } ${draggingId === image.id ? 'opacity-50' : ''}`}
+              >
+                <img src={image.url} alt={`Foto ${index + 1}`} className="h-28 w-full cursor-move object-cover" />
+                {isCover && (
+                  <span className="absolute left-1 top-1 rounded-full bg-primary-600 px-2 py-0.5 text-[10px] font-bold text-white">
+                    PORTADA
+                  </span>
+                )}
+                <div className="flex items-center justify-between gap-1 px-1 py-1">
+                  <div className="flex gap-1">
+                    <button
+                      type="button"
+                      aria-label="Mover a la izquierda"
+                      disabled={index === 0}
+                      onClick={() => moveImageBy(image.id, -1)}
+                      className="rounded border border-gray-300 px-1.5 text-xs text-gray-600 disabled:opacity-30"
+                    >
+                      ←
+                    </button>
+                    <button
+                      type="button"
+                      aria-label="Mover a la derecha"
+                      disabled={index === images.length - 1}
+                      onClick={() => moveImageBy(image.id, 1)}
+                      className="rounded border border-gray-300 px-1.5 text-xs text-gray-600 disabled:opacity-30"
+                    >
+                      →
+                    </button>
+                  </div>
+                  <div className="flex gap-1">
+                    {!isCover && (
+                      <button
+                        type="button"
+                        onClick={() => moveImage(image.id, images[0].id)}
+                        className="rounded border border-primary-300 px-1.5 text-[10px] font-semibold text-primary-700"
+                      >
+                        Portada
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      aria-label="Quitar foto"
+                      onClick={() => handleRemove(image.id)}
+                      className="rounded border border-rose-300 px-1.5 text-xs text-rose-600"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+interface ProductSaleFieldsProps {
+  salePrice: string
+  startsAt: string
+  endsAt: string
+  onSalePriceChange: (value: string) => void
+  onStartsAtChange: (value: string) => void
+  onEndsAtChange: (value: string) => void
+}
+
+export const ProductSaleFields = ({
+  salePrice,
+  startsAt,
+  endsAt,
+  onSalePriceChange,
+  onStartsAtChange,
+  onEndsAtChange,
+}: ProductSaleFieldsProps) => {
+  return (
+    <div className="space-y-3 rounded-xl border border-rose-200 bg-rose-50/60 p-4">
+      <div>
+        <p className="text-sm font-bold text-rose-900">Oferta</p>
+        <p className="text-xs text-rose-700">Opcional. Deja las fechas vacías para una oferta sin límite.</p>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-3">
+        <label className="block">
+          <span className="mb-1 block text-xs font-semibold text-gray-700">Precio de oferta ($)</span>
+          <input
+            value={salePrice}
+            onChange={(event) => onSalePriceChange(event.target.value)}
+            placeholder="Ej: 249.99"
+            className="h-11 w-full rounded-xl border border-gray-300 bg-white px-3 text-sm outline-none ring-primary-200 focus:ring"
+          />
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-xs font-semibold text-gray-700">Desde</span>
+          <input
+            type="date"
+            value={startsAt}
+            onChange={(event) => onStartsAtChange(event.target.value)}
+            className="h-11 w-full rounded-xl border border-gray-300 bg-white px-3 text-sm outline-none ring-primary-200 focus:ring"
+          />
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-xs font-semibold text-gray-700">Hasta</span>
+          <input
+            type="date"
+            value={endsAt}
+            onChange={(event) => onEndsAtChange(event.target.value)}
+            className="h-11 w-full rounded-xl border border-gray-300 bg-white px-3 text-sm outline-none ring-primary-200 focus:ring"
+          />
+        </label>
+      </div>
+    </div>
+  )
+}
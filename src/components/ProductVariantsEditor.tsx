@@ -0,0 +1,190 @@
+import { useState } from 'react'
+import type { ProductVariant, ProductVariantGroup } from '../types/product'
+import { buildVariantCombinations, formatVariantLabel } from '../utils/productVariants'
+
+interface ProductVariantsEditorProps {
+  groups: ProductVariantGroup[]
+  variants: ProductVariant[]
+  basePrice: string
+  onChange: (groups: ProductVariantGroup[], variants: ProductVariant[]) => void
+}
+
+const GROUP_SUGGESTIONS = ['Talla', 'Color', 'Modelo']
+
+export const ProductVariantsEditor = ({ groups, variants, basePrice, onChange }: ProductVariantsEditorProps) => {
+  const [optionDrafts, setOptionDrafts] = useState<Record<number, string>>({})
+  const [priceDrafts, setPriceDrafts] = useState<Record<string, string>>({})
+
+  const updateGroups = (nextGroups: ProductVariantGroup[]) => {
+    onChange(nextGroups, buildVariantCombinations(nextGroups, variants))
+  }
+
+  const handleAddGroup = () => {
+    const usedNames = groups.map((group) => group.name.trim().toLowerCase())
+    const suggestion = GROUP_SUGGESTIONS.find((name) => !usedNames.includes(name.toLowerCase())) ?? ''
+    updateGroups([...groups, { name: suggestion, options: [] }])
+  }
+
+  const handleRemoveGroup = (index: number) => {
+    updateGroups(groups.filter((_, groupIndex) => groupIndex !== index))
+    setOptionDrafts({})
+  }
+
+  const handleRenameGroup = (index: number, name: string) => {
+    updateGroups(groups.map((group, groupIndex) => (groupIndex === index ? { ...group, name } : group)))
+  }
+
+  const handleAddOption = (index: number) => {
+    const value = (optionDrafts[index] ?? '').trim()
+    if (!value) return
+
+    const group = groups[index]
+    const alreadyExists = group.options.some((option) => option.toLowerCase() === value.toLowerCase())
+    if (!alreadyExists) {
+      updateGroups(
+        groups.map((item, groupIndex) => (groupIndex === index ? { ...item, options: [...item.options, value] } : item))
+      )
+    }
+
+    setOptionDrafts((prev) => ({ ...prev, [index]: '' }))
+  }
+
+  const handleRemoveOption = (index: number, option: string) => {
+    updateGroups(
+      groups.map((group, groupIndex) =>
+        groupIndex === index ? { ...group, options: group.options.filter((item) => item !== option) } : group
+      )
+    )
+  }
+
+  const updateVariant = (key: string, changes: Partial<ProductVariant>) => {
+    onChange(
+      groups,
+      variants.map((variant) => (variant.key === key ? { ...variant, ...changes } : variant))
+    )
+  }
+
+  const handlePriceChange = (key: string, value: string) => {
+    setPriceDrafts((prev) => ({ ...prev, [key]: value }))
+
+    const parsed = Number(value)
+    updateVariant(key, { price: value.trim() && Number.isFinite(parsed) && parsed > 0 ? parsed : null })
+  }
+
+  return (
+    <div className="space-y-3 rounded-xl border border-violet-200 bg-violet-50/60 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <p className="text-sm font-bold text-violet-900">Variantes (talla, color, modelo)</p>
+          <p className="text-xs text-violet-700">Opcional. El cliente deberá elegir una opción de cada grupo.</p>
+        </div>
+        <button
+          type="button"
+          onClick={handleAddGroup}
+          className="rounded-lg border border-violet-400 bg-white px-3 py-1.5 text-xs font-semibold text-violet-700 hover:bg-violet-50"
+        >
+          + Agregar grupo
+        </button>
+      </div>
+
+      {groups.map((group, index) => (
+        <div key={index} className="space-y-2 rounded-lg border border-violet-200 bg-white p-3">
+          <div className="flex items-center gap-2">
+            <input
+              value={group.name}
+              onChange={(event) => handleRenameGroup(index, event.target.value)}
+              onBlur={() => {
+                if (group.name !== group.name.trim()) handleRenameGroup(index, group.name.trim())
+              }}
+              placeholder="Nombre del grupo (Ej: Color)"
+              className="h-10 flex-1 rounded-lg border border-gray-300 px-3 text-sm outline-none ring-primary-200 focus:ring"
+            />
+            <button
+              type="button"
+              onClick={() => handleRemoveGroup(index)}
+              className="rounded-lg border border-rose-300 px-2 py-1.5 text-xs font-semibold text-rose-600 hover:bg-rose-50"
+            >
+              Quitar
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {group.options.map((option) => (
+              <span
+                key={option}
+                className="inline-flex items-center gap-1 rounded-full border border-violet-300 bg-violet-50 px-3 py-1 text-xs font-semibold text-violet-800"
+              >
+                {option}
+                <button
+                  type="button"
+                  aria-label={`Quitar opción ${option}`}
+                  onClick={() => handleRemoveOption(index, option)}
+                  className="text-violet-500 hover:text-rose-600"
+                >
+                  ✕
+                </button>
+              </span>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              value={optionDrafts[index] ?? ''}
+              onChange={(event) => setOptionDrafts((prev) => ({ ...prev, [index]: event.target.value }))}
+              onKeyDown={(event) => {
+                if (event.key !== 'Enter') return
+                event.preventDefault()
+                handleAddOption(index)
+              }}
+              placeholder="Nueva opción (Ej: Rojo)"
+              className="h-9 flex-1 rounded-lg border border-gray-300 px-3 text-sm outline-none ring-primary-200 focus:ring"
+            />
+            <button
+              type="button"
+              onClick={() => handleAddOption(index)}
+              className="rounded-lg bg-violet-600 px-3 text-xs font-semibold text-white hover:bg-violet-700"
+            >
+              Agregar
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {variants.length > 0 && (
+        <div className="overflow-x-auto rounded-lg border border-violet-200 bg-white">
+          <table className="min-w-full divide-y divide-violet-100 text-sm">
+            <thead className="bg-violet-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-violet-800">Combinación</th>
+                <th className="px-3 py-2 text-left font-semibold text-violet-800">Precio ($)</th>
+                <th className="px-3 py-2 text-left font-semibold text-violet-800">Disponible</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-violet-100">
+              {variants.map((variant) => (
+                <tr key={variant.key}>
+                  <td className="px-3 py-2 text-gray-700">{formatVariantLabel(groups, variant.options)}</td>
+                  <td className="px-3 py-2">
+                    <input
+                      value={priceDrafts[variant.key] ?? (variant.price === null ? '' : String(variant.price))}
+                      onChange={(event) => handlePriceChange(variant.key, event.target.value)}
+                      placeholder={basePrice || 'Precio base'}
+                      className="h-9 w-28 rounded-lg border border-gray-300 px-2 text-sm outline-none ring-primary-200 focus:ring"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={variant.isAvailable}
+                      onChange={() => updateVariant(variant.key, { isAvailable: !variant.isAvailable })}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
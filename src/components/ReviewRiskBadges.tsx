@@ -0,0 +1,31 @@
+import type { ReviewScreening } from '../types/review'
+import { REVIEW_FLAG_LABELS } from '../utils/reviewScreening'
+
+interface ReviewRiskBadgesProps {
+  screening?: ReviewScreening
+  autoRejectScore: number
+}
+
+export const ReviewRiskBadges = ({ screening, autoRejectScore }: ReviewRiskBadgesProps) => {
+  if (!screening || screening.flags.length === 0) return null
+
+  return (
+    <div className="mb-2 flex flex-wrap items-center gap-2">
+      <span
+        className={`rounded-full px-2.5 py-0.5 text-xs font-bold ${
+          screening.riskScore >= autoRejectScore ? 'bg-rose-600 text-white' : 'bg-amber-100 text-amber-800'
+        }`}
+      >
+        Riesgo {screening.riskScore}/100
+      </span>
+      {screening.flags.map((flag) => (
+        <span
+          key={flag}
+          className="rounded-full border border-rose-200 bg-white px-2.5 py-0.5 text-xs font-semibold text-rose-700"
+        >
+          {REVIEW_FLAG_LABELS[flag]}
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -1,9 +1,19 @@
 import { useEffect, useRef, useState } from 'react'
+import { useStoreSettings } from '../hooks/useStoreSettings'
+import { formatBusinessHours, formatPhoneNumber, getActiveAgents } from '../utils/storeSettings'
 
 export const StoreFooter = () => {
   const year = new Date().getFullYear()
   const footerRef = useRef<HTMLElement | null>(null)
   const [isVisible, setIsVisible] = useState(false)
+  const settings = useStoreSettings()
+  const { developerCredit } = settings
+  const businessHours = formatBusinessHours(settings.businessHours)
+  const socialLinks = [
+    { label: 'Facebook', url: settings.socialLinks.facebook },
+    { label: 'Instagram', url: settings.socialLinks.instagram },
+    { label: 'TikTok', url: settings.socialLinks.tiktok },
+  ].filter((item) => item.url)
 
   useEffect(() => {
     const element = footerRef.current
@@ -33,15 +43,15 @@ export const StoreFooter = () => {
       <div className="mx-auto grid w-full max-w-7xl gap-6 px-4 py-8 md:grid-cols-[1.2fr_1fr] md:px-8">
         <div className="group flex items-center gap-4 rounded-2xl border border-white/10 bg-white/5 p-4 transition duration-300 hover:-translate-y-0.5 hover:border-primary-300/40 hover:bg-white/10 hover:shadow-[0_10px_30px_rgba(56,189,248,0.15)]">
           <img
-            src="/fernando-lara-soft-logo.png"
-            alt="Fernando Lara Soft"
+            src={developerCredit.logoUrl}
+            alt={developerCredit.companyName}
             className="h-16 w-16 rounded-full border border-white/20 bg-white object-contain p-1 transition duration-300 group-hover:scale-105 group-hover:shadow-[0_0_25px_rgba(56,189,248,0.35)]"
           />
           <div>
-            <p className="text-lg font-bold text-white">Fernando Lara Soft</p>
-            <p className="text-sm text-slate-300">Soluciones digitales innovadoras para tu negocio</p>
+            <p className="text-lg font-bold text-white">{developerCredit.companyName}</p>
+            <p className="text-sm text-slate-300">{developerCredit.tagline}</p>
             <p className="mt-1 text-sm font-semibold text-primary-200">
-              Desarrollado por <span className="text-primary-300">Fernando Lara Morán</span>
+              Desarrollado por <span className="text-primary-300">{developerCredit.developerName}</span>
             </p>
             <p className="mt-1 text-xs text-slate-400">© {year} Todos los derechos reservados</p>
           </div>
@@ -50,24 +60,55 @@ export const StoreFooter = () => {
         <div className="rounded-2xl border border-white/15 bg-white/5 p-4 transition duration-300 hover:border-primary-300/40 hover:bg-white/10 hover:shadow-[0_10px_30px_rgba(56,189,248,0.12)]">
           <p className="mb-2 text-sm font-semibold text-white">Contacto directo</p>
           <div className="space-y-1 text-sm text-slate-200">
-            <a
-              href="https://wa.me/593993385551"
-              target="_blank"
-              rel="noreferrer"
-              className="block transition hover:translate-x-0.5 hover:text-primary-300"
-            >
-              WhatsApp: +593 993385551
-            </a>
-            <a href="tel:+593993385551" className="block transition hover:translate-x-0.5 hover:text-primary-300">
-              Celular: +593 993385551
+            {getActiveAgents(settings).map((agent) => (
+              <a
+                key={agent.id}
+                href={`https://wa.me/${agent.phone}`}
+                target="_blank"
+                rel="noreferrer"
+                className="block transition hover:translate-x-0.5 hover:text-primary-300"
+              >
+                WhatsApp {agent.name}: {formatPhoneNumber(agent.phone)}
+              </a>
+            ))}
+            <a href={`tel:+${settings.phone}`} className="block transition hover:translate-x-0.5 hover:text-primary-300">
+              Celular: {formatPhoneNumber(settings.phone)}
             </a>
             <a
-              href="mailto:fernando.lara.moran@gmail.com"
+              href={`mailto:${settings.email}`}
               className="block break-all transition hover:translate-x-0.5 hover:text-primary-300"
             >
-              fernando.lara.moran@gmail.com
+              {settings.email}
             </a>
+            {settings.address && <p>📍 {settings.address}</p>}
           </div>
+
+          {businessHours.length > 0 && (
+            <div className="mt-3 border-t border-white/10 pt-3">
+              <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-400">Horario de atención</p>
+              <ul className="space-y-0.5 text-xs text-slate-300">
+                {businessHours.map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {socialLinks.length > 0 && (
+            <div className="mt-3 flex flex-wrap gap-2">
+              {socialLinks.map((item) => (
+                <a
+                  key={item.label}
+                  href={item.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-primary-300 hover:text-primary-300"
+                >
+                  {item.label}
+                </a>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     </footer>
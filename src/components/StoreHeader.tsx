@@ -1,6 +1,10 @@
-import { useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { Link, useLocation, useNavigate } from 'react-router-dom'
+import { useCart } from '../hooks/useCart'
+import { useStoreSettings } from '../hooks/useStoreSettings'
 import { authService } from '../services/api'
+import { getCartItemCount } from '../utils/cart'
+import { CartDrawer } from './CartDrawer'
 
 interface StoreHeaderProps {
   subtitle: string
@@ -14,6 +18,10 @@ export const StoreHeader = ({ subtitle, onLogoLongPress }: StoreHeaderProps) =>
   const [welcomeText, setWelcomeText] = useState('Bienvenido cliente')
   const [isAdmin, setIsAdmin] = useState(false)
   const [isAdminMenuOpen, setIsAdminMenuOpen] = useState(false)
+  const [isCartOpen, setIsCartOpen] = useState(false)
+  const cartItems = useCart()
+  const { storeName } = useStoreSettings()
+  const cartItemCount = getCartItemCount(cartItems)
   const timerRef = useRef<number | null>(null)
   const adminMenuRef = useRef<HTMLDivElement | null>(null)
   const adminMenuTriggerRef = useRef<HTMLButtonElement | null>(null)
@@ -80,6 +88,8 @@ export const StoreHeader = ({ subtitle, onLogoLongPress }: StoreHeaderProps) =>
     timerRef.current = null
   }
 
+  const closeCart = useCallback(() => setIsCartOpen(false), [])
+
   const handleLogout = () => {
     authService.clearToken()
     setIsAdmin(false)
@@ -169,7 +179,7 @@ export const StoreHeader = ({ subtitle, onLogoLongPress }: StoreHeaderProps) =>
             />
             <img
               src="/logo.png"
-              alt="FL Store"
+              alt={storeName}
               className={`relative h-12 w-12 rounded-full border-2 bg-white object-contain md:h-16 md:w-16 ${
                 isScrolled ? 'border-primary-500' : 'border-white shadow-lg'
               }`}
@@ -181,7 +191,7 @@ export const StoreHeader = ({ subtitle, onLogoLongPress }: StoreHeaderProps) =>
                 isScrolled ? 'text-gray-900' : 'text-white drop-shadow-lg'
               }`}
             >
-              FL Store
+              {storeName}
             </p>
             <p
               className={`hidden text-[10px] italic sm:block md:text-sm ${
@@ -279,6 +289,36 @@ export const StoreHeader = ({ subtitle, onLogoLongPress }: StoreHeaderProps) =>
                       type="button"
                       role="menuitem"
                       onKeyDown={(event) => handleAdminMenuItemKeyDown(event, 3)}
+                      onClick={() => {
+                        setIsAdminMenuOpen(false)
+                        navigate('/admin/anuncios')
+                      }}
+                      className="block w-full px-3 py-2 text-left text-xs font-semibold text-gray-700 hover:bg-gray-50"
+                    >
+                      Anuncios
+                    </button>
+                    <button
+                      ref={(element) => {
+                        adminMenuItemRefs.current[4] = element
+                      }}
+                      type="button"
+                      role="menuitem"
+                      onKeyDown={(event) => handleAdminMenuItemKeyDown(event, 4)}
+                      onClick={() => {
+                        setIsAdminMenuOpen(false)
+                        navigate('/admin/configuracion')
+                      }}
+                      className="block w-full px-3 py-2 text-left text-xs font-semibold text-gray-700 hover:bg-gray-50"
+                    >
+                      Ajustes
+                    </button>
+                    <button
+                      ref={(element) => {
+                        adminMenuItemRefs.current[5] = element
+                      }}
+                      type="button"
+                      role="menuitem"
+                      onKeyDown={(event) => handleAdminMenuItemKeyDown(event, 5)}
                       onClick={handleLogout}
                       className="block w-full px-3 py-2 text-left text-xs font-semibold text-rose-600 hover:bg-rose-50"
                     >
@@ -307,6 +347,18 @@ export const StoreHeader = ({ subtitle, onLogoLongPress }: StoreHeaderProps) =>
                 >
                   Comentarios
                 </Link>
+                <Link
+                  to="/admin/anuncios"
+                  className={`whitespace-nowrap ${isScrolled ? 'text-gray-700' : 'text-white'} transition hover:text-primary-500`}
+                >
+                  Anuncios
+                </Link>
+                <Link
+                  to="/admin/configuracion"
+                  className={`whitespace-nowrap ${isScrolled ? 'text-gray-700' : 'text-white'} transition hover:text-primary-500`}
+                >
+                  Ajustes
+                </Link>
                 <button
                   type="button"
                   onClick={handleLogout}
@@ -317,6 +369,23 @@ export const StoreHeader = ({ subtitle, onLogoLongPress }: StoreHeaderProps) =>
               </div>
             </>
           )}
+          <button
+            type="button"
+            onClick={() => setIsCartOpen(true)}
+            aria-label={`Abrir carrito (${cartItemCount} productos)`}
+            className={`relative rounded-full border px-3 py-1 ${
+              isScrolled
+                ? 'border-primary-200 bg-white text-primary-700'
+                : 'border-white/40 bg-white/10 text-white'
+            }`}
+          >
+            🛒
+            {cartItemCount > 0 && (
+              <span className="absolute -right-2 -top-2 flex h-5 min-w-5 items-center justify-center rounded-full bg-pink-500 px-1 text-[10px] font-bold text-white">
+                {cartItemCount > 99 ? '99+' : cartItemCount}
+              </span>
+            )}
+          </button>
           <span
             className={`select-none rounded-full px-3 py-1 text-xs md:text-sm ${
               isScrolled
@@ -329,6 +398,7 @@ export const StoreHeader = ({ subtitle, onLogoLongPress }: StoreHeaderProps) =>
           </span>
         </nav>
       </div>
+      <CartDrawer isOpen={isCartOpen} onClose={closeCart} />
     </header>
   )
 }
@@ -0,0 +1,106 @@
+import type { WhatsAppAgent } from '../types/storeSettings'
+
+interface WhatsAppAgentsEditorProps {
+  agents: WhatsAppAgent[]
+  categories: string[]
+  onChange: (agents: WhatsAppAgent[]) => void
+}
+
+const createAgentId = () => globalThis.crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random()}`
+
+export const WhatsAppAgentsEditor = ({ agents, categories, onChange }: WhatsAppAgentsEditorProps) => {
+  const updateAgent = (id: string, changes: Partial<WhatsAppAgent>) => {
+    onChange(agents.map((agent) => (agent.id === id ? { ...agent, ...changes } : agent)))
+  }
+
+  const toggleCategory = (agent: WhatsAppAgent, category: string) => {
+    const nextCategories = agent.categories.includes(category)
+      ? agent.categories.filter((item) => item !== category)
+      : [...agent.categories, category]
+    updateAgent(agent.id, { categories: nextCategories })
+  }
+
+  return (
+    <div className="space-y-3">
+      {agents.map((agent) => (
+        <div key={agent.id} className="space-y-3 rounded-2xl border border-emerald-200 bg-emerald-50/60 p-4">
+          <div className="grid gap-3 md:grid-cols-[1fr_1fr_auto]">
+            <label className="block">
+              <span className="mb-1 block text-xs font-semibold text-gray-700">Nombre</span>
+              <input
+                value={agent.name}
+                onChange={(event) => updateAgent(agent.id, { name: event.target.value })}
+                placeholder="Ej: Ventas"
+                className="h-11 w-full rounded-xl border border-gray-300 bg-white px-3 text-sm outline-none ring-primary-200 focus:ring"
+              />
+            </label>
+            <label className="block">
+              <span className="mb-1 block text-xs font-semibold text-gray-700">WhatsApp</span>
+              <input
+                value={agent.phone}
+                onChange={(event) => updateAgent(agent.id, { phone: event.target.value })}
+                placeholder="593991234567"
+                className="h-11 w-full rounded-xl border border-gray-300 bg-white px-3 text-sm outline-none ring-primary-200 focus:ring"
+              />
+            </label>
+            <div className="flex items-end gap-2">
+              <label className="flex h-11 items-center gap-2 rounded-xl border border-gray-300 bg-white px-3">
+                <input
+                  type="checkbox"
+                  checked={agent.isActive}
+                  onChange={() => updateAgent(agent.id, { isActive: !agent.isActive })}
+                />
+                <span className="text-xs font-semibold text-gray-700">Activo</span>
+              </label>
+              <button
+                type="button"
+                aria-label="Quitar asesor"
+                disabled={agents.length === 1}
+                onClick={() => onChange(agents.filter((item) => item.id !== agent.id))}
+                className="h-11 rounded-xl border border-rose-300 px-4 text-sm font-semibold text-rose-600 disabled:opacity-40"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+
+          {categories.length > 0 && (
+            <div>
+              <p className="mb-1 text-xs font-semibold text-gray-700">
+                Categorías que atiende {agent.categories.length === 0 && <span className="font-normal">(todas)</span>}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {categories.map((category) => {
+                  const isSelected = agent.categories.includes(category)
+
+                  return (
+                    <button
+                      key={category}
+                      type="button"
+                      onClick={() => toggleCategory(agent, category)}
+                      className={`rounded-full border px-3 py-1 text-xs font-semibold transition ${
+                        isSelected
+                          ? 'border-emerald-600 bg-emerald-600 text-white'
+                          : 'border-gray-300 bg-white text-gray-700 hover:border-emerald-500'
+                      }`}
+                    >
+                      {category}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...agents, { id: createAgentId(), name: '', phone: '', categories: [], isActive: true }])}
+        className="rounded-xl border border-primary-500 px-4 py-2 text-sm font-semibold text-primary-700 hover:bg-primary-50"
+      >
+        + Agregar asesor
+      </button>
+    </div>
+  )
+}
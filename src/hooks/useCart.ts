@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react'
+import { readCart, subscribeCart } from '../utils/cart'
+
+export const useCart = () => {
+  return useSyncExternalStore(subscribeCart, readCart)
+}
@@ -0,0 +1,28 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import { apiService } from '../services/api'
+import { readStoreSettings, setStoreSettings, subscribeStoreSettings } from '../utils/storeSettings'
+
+let settingsRequest: Promise<void> | null = null
+
+export const loadStoreSettings = () => {
+  if (!settingsRequest) {
+    settingsRequest = apiService.getStoreSettings().then((settings) => {
+      if (settings) {
+        setStoreSettings(settings)
+        return
+      }
+
+      settingsRequest = null
+    })
+  }
+
+  return settingsRequest
+}
+
+export const useStoreSettings = () => {
+  useEffect(() => {
+    void loadStoreSettings()
+  }, [])
+
+  return useSyncExternalStore(subscribeStoreSettings, readStoreSettings)
+}
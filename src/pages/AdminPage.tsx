@@ -3,10 +3,17 @@ import type { FormEvent } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { usePaginationLimit } from '../hooks/usePaginationLimit'
 import { StoreFooter } from '../components/StoreFooter'
+import { ProductBannerFields } from '../components/ProductBannerFields'
+import { ProductImagesEditor } from '../components/ProductImagesEditor'
+import type { ProductImageDraft } from '../components/ProductImagesEditor'
+import { ProductSaleFields } from '../components/ProductSaleFields'
+import { ProductVariantsEditor } from '../components/ProductVariantsEditor'
 import { StoreHeader } from '../components/StoreHeader'
 import { apiService, authService } from '../services/api'
+import type { Product, ProductVariant, ProductVariantGroup } from '../types/product'
+import { fromDateInputValue } from '../utils/dateInput'
 import { buildCompactPagination } from '../utils/pagination'
-import { setProductBannerFlag } from '../utils/bannerSettings'
+import { getStockStatus, LOW_STOCK_THRESHOLD, parseStockInput } from '../utils/productStock'
 
 const NEW_CATEGORY_VALUE = '__new_category__'
 const VISITS_PER_PAGE = 5
@@ -21,13 +28,21 @@ export const AdminPage = () => {
   const [name, setName] = useState('')
   const [description, setDescription] = useState('')
   const [price, setPrice] = useState('')
+  const [stock, setStock] = useState('')
+  const [salePrice, setSalePrice] = useState('')
+  const [saleStartsAt, setSaleStartsAt] = useState('')
+  const [saleEndsAt, setSaleEndsAt] = useState('')
   const [categories, setCategories] = useState<string[]>([])
+  const [lowStockProducts, setLowStockProducts] = useState<Product[]>([])
   const [selectedCategory, setSelectedCategory] = useState('')
   const [newCategory, setNewCategory] = useState('')
-  const [imageFile, setImageFile] = useState<File | null>(null)
-  const [preview, setPreview] = useState('')
+  const [imageDrafts, setImageDrafts] = useState<ProductImageDraft[]>([])
   const [isNew, setIsNew] = useState(true)
+  const [bannerOrder, setBannerOrder] = useState('')
+  const [bannerText, setBannerText] = useState('')
   const [showInBanner, setShowInBanner] = useState(true)
+  const [variantGroups, setVariantGroups] = useState<ProductVariantGroup[]>([])
+  const [variants, setVariants] = useState<ProductVariant[]>([])
   const [loading, setLoading] = useState(false)
   const [recalculatingMetrics, setRecalculatingMetrics] = useState(false)
   const [adminMetrics, setAdminMetrics] = useState({
@@ -103,6 +118,11 @@ export const AdminPage = () => {
       })
 
       setCategories(sortCategories(Array.from(categoryMap.values())))
+      setLowStockProducts(
+        fetchedProducts
+          .filter((item) => item.isEnabled !== false && ['low', 'out'].includes(getStockStatus(item)))
+          .sort((first, second) => (first.stock ?? 0) - (second.stock ?? 0))
+      )
       setAdminMetrics(fetchedMetrics)
       if (fetchedPushStats) {
         setPushTokenStats(fetchedPushStats)
@@ -114,16 +134,6 @@ export const AdminPage = () => {
     void loadCategories()
   }, [])
 
-  useEffect(() => {
-    if (imageFile) {
-      const objectUrl = URL.createObjectURL(imageFile)
-      setPreview(objectUrl)
-      return () => URL.revokeObjectURL(objectUrl)
-    }
-    setPreview('')
-    return
-  }, [imageFile])
-
   const totalVisitPages = useMemo(() => {
     return Math.max(1, Math.ceil(adminMetrics.recentVisits.length / VISITS_PER_PAGE))
   }, [adminMetrics.recentVisits.length])
@@ -145,12 +155,19 @@ export const AdminPage = () => {
     setName('')
     setDescription('')
     setPrice('')
+    setStock('')
+    setSalePrice('')
+    setSaleStartsAt('')
+    setSaleEndsAt('')
     setSelectedCategory('')
     setNewCategory('')
-    setImageFile(null)
-    setPreview('')
+    setImageDrafts([])
     setIsNew(true)
     setShowInBanner(true)
+    setBannerOrder('')
+    setBannerText('')
+    setVariantGroups([])
+    setVariants([])
   }
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
@@ -159,7 +176,7 @@ export const AdminPage = () => {
     const categoryValue = selectedCategory === NEW_CATEGORY_VALUE ? newCategory : selectedCategory
     const normalizedCategory = categoryValue.trim()
 
-    if (!name || !description || !price || !normalizedCategory || !imageFile) {
+    if (!name || !description || !price || !normalizedCategory || imageDrafts.length === 0) {
       window.alert('Por favor completa todos los campos')
       return
     }
@@ -170,9 +187,37 @@ export const AdminPage = () => {
       return
     }
 
+    const stockValue = parseStockInput(stock)
+    if (stockValue === undefined) {
+      window.alert('El stock debe ser un número entero igual o mayor a 0')
+      return
+    }
+
+    const salePriceNumber = salePrice.trim() ? Number(salePrice) : null
+    if (salePriceNumber !== null && (!Number.isFinite(salePriceNumber) || salePriceNumber <= 0 || salePriceNumber >= priceNumber)) {
+      window.alert('El precio de oferta debe ser menor al precio normal')
+      return
+    }
+
+    if (saleStartsAt && saleEndsAt && saleStartsAt > saleEndsAt) {
+      window.alert('La fecha de fin de la oferta debe ser posterior a la de inicio')
+      return
+    }
+
+    const bannerOrderNumber = bannerOrder.trim() ? Number(bannerOrder) : null
+    if (bannerOrderNumber !== null && (!Number.isInteger(bannerOrderNumber) || bannerOrderNumber <= 0)) {
+      window.alert('El orden del banner debe ser un número entero mayor a 0')
+      return
+    }
+
+    if (variantGroups.some((group) => !group.name.trim() || group.options.length === 0)) {
+      window.alert('Cada grupo de variantes necesita un nombre y al menos una opción')
+      return
+    }
+
     setLoading(true)
-    const uploadedImage = await apiService.uploadImage(imageFile)
-    if (!uploadedImage) {
+    const uploadedImages = await apiService.uploadImages(imageDrafts.flatMap((draft) => (draft.file ? [draft.file] : [])))
+    if (!uploadedImages) {
       setLoading(false)
       if (!authService.hasToken()) {
         window.alert('Tu sesión expiró. Inicia sesión nuevamente.')
@@ -184,13 +229,26 @@ export const AdminPage = () => {
       return
     }
 
+    let uploadIndex = 0
+    const finalImages = imageDrafts.map((draft) => (draft.file ? uploadedImages[uploadIndex++] : draft.url))
+
     const response = await apiService.addProduct({
       name,
       description,
       price: priceNumber,
       category: normalizedCategory,
-      image: uploadedImage,
+      image: finalImages[0],
+      images: finalImages,
       isNew,
+      showInBanner,
+      bannerOrder: showInBanner ? bannerOrderNumber : null,
+      bannerText: showInBanner ? bannerText.trim() : '',
+      stock: stockValue,
+      salePrice: salePriceNumber,
+      saleStartsAt: salePriceNumber ? fromDateInputValue(saleStartsAt, 'start') : null,
+      saleEndsAt: salePriceNumber ? fromDateInputValue(saleEndsAt, 'end') : null,
+      variantGroups,
+      variants,
     })
 
     setLoading(false)
@@ -211,8 +269,6 @@ export const AdminPage = () => {
       return sortCategories([...prev, normalizedCategory])
     })
 
-    setProductBannerFlag(response.id, showInBanner)
-
     window.alert('Producto agregado correctamente')
     resetForm()
   }
@@ -447,47 +503,56 @@ export const AdminPage = () => {
             ) : null}
           </div>
 
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <label className="block">
-              <span className="mb-1 block text-sm font-semibold text-gray-700">Foto del producto</span>
-              <input
-                id="admin-image-file"
-                type="file"
-                accept="image/*"
-                onChange={(event) => setImageFile(event.target.files?.[0] ?? null)}
-                className="hidden"
-              />
-              <div className="space-y-2">
-                <div className="flex items-center gap-3">
-                  <label
-                    htmlFor="admin-image-file"
-                    className="inline-flex cursor-pointer items-center gap-2 rounded-xl bg-primary-600 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-primary-700"
-                  >
-                    📸 Seleccionar imagen
-                  </label>
-                  {preview ? (
-                    <img
-                      src={preview}
-                      alt="Miniatura"
-                      className="h-11 w-11 rounded-full border border-primary-200 object-cover"
-                    />
-                  ) : (
-                    <div className="flex h-11 w-11 items-center justify-center rounded-full border border-dashed border-gray-300 text-lg text-gray-400">
-                      🖼️
-                    </div>
-                  )}
-                </div>
-                <p className="text-xs text-gray-600">{imageFile ? imageFile.name : 'Ningún archivo seleccionado'}</p>
-              </div>
-            </label>
+          <div className="mb-6 space-y-3 rounded-2xl border border-amber-200 bg-amber-50/60 p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-lg font-bold text-amber-900">Stock bajo</h2>
+              <p className="text-xs font-semibold text-amber-700">{LOW_STOCK_THRESHOLD} unidades o menos</p>
+            </div>
 
-            {preview ? (
-              <img src={preview} alt="Preview" className="h-56 w-full rounded-2xl object-cover" />
+            {lowStockProducts.length === 0 ? (
+              <p className="text-sm text-amber-800">Todos los productos tienen stock suficiente.</p>
             ) : (
-              <div className="flex h-56 items-center justify-center rounded-2xl border border-dashed border-gray-300 text-gray-500">
-                Sin imagen seleccionada
-              </div>
+              <ul className="divide-y divide-amber-100 rounded-xl border border-amber-200 bg-white">
+                {lowStockProducts.map((item) => (
+                  <li key={item.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <div className="flex min-w-0 items-center gap-3">
+                      <img src={item.image} alt={item.name} className="h-10 w-10 rounded-lg object-cover" />
+                      <div className="min-w-0">
+                        <p className="line-clamp-1 text-sm font-semibold text-gray-900">{item.name}</p>
+                        <p className="text-xs text-gray-500">{item.category}</p>
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      <span
+                        className={`rounded-full px-2 py-1 text-xs font-bold ${
+                          item.stock === 0 ? 'bg-gray-900 text-white' : 'bg-amber-100 text-amber-800'
+                        }`}
+                      >
+                        {item.stock === 0 ? 'AGOTADO' : `${item.stock} uds.`}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => navigate(`/admin/editar/${item.id}`)}
+                        className="rounded-lg border border-primary-500 px-2 py-1 text-xs font-semibold text-primary-700 hover:bg-primary-50"
+                      >
+                        Reponer
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
             )}
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="block">
+              <span className="mb-1 block text-sm font-semibold text-gray-700">Fotos del producto</span>
+              <ProductImagesEditor
+                inputId="admin-image-file"
+                images={imageDrafts}
+                onChange={setImageDrafts}
+              />
+            </div>
 
             <label className="block">
               <span className="mb-1 block text-sm font-semibold text-gray-700">Nombre del producto</span>
@@ -539,6 +604,28 @@ export const AdminPage = () => {
               </label>
             </div>
 
+            <label className="block">
+              <span className="mb-1 block text-sm font-semibold text-gray-700">Stock disponible</span>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={stock}
+                onChange={(event) => setStock(event.target.value)}
+                placeholder="Vacío = sin control de stock"
+                className="h-12 w-full rounded-xl border border-gray-300 px-4 text-sm outline-none ring-primary-200 focus:ring"
+              />
+            </label>
+
+            <ProductSaleFields
+              salePrice={salePrice}
+              startsAt={saleStartsAt}
+              endsAt={saleEndsAt}
+              onSalePriceChange={setSalePrice}
+              onStartsAtChange={setSaleStartsAt}
+              onEndsAtChange={setSaleEndsAt}
+            />
+
             {selectedCategory === NEW_CATEGORY_VALUE ? (
               <label className="block">
                 <span className="mb-1 block text-sm font-semibold text-gray-700">Nueva categoría</span>
@@ -551,19 +638,29 @@ export const AdminPage = () => {
               </label>
             ) : null}
 
+            <ProductVariantsEditor
+              groups={variantGroups}
+              variants={variants}
+              basePrice={price}
+              onChange={(nextGroups, nextVariants) => {
+                setVariantGroups(nextGroups)
+                setVariants(nextVariants)
+              }}
+            />
+
             <label className="flex items-center gap-3 rounded-xl border border-gray-300 bg-gray-50 px-4 py-3">
               <input type="checkbox" checked={isNew} onChange={() => setIsNew((prev) => !prev)} />
               <span className="text-sm font-semibold text-gray-700">Marcar como nuevo</span>
             </label>
 
-            <label className="flex items-center gap-3 rounded-xl border border-amber-300 bg-amber-50 px-4 py-3">
-              <input
-                type="checkbox"
-                checked={showInBanner}
-                onChange={() => setShowInBanner((prev) => !prev)}
-              />
-              <span className="text-sm font-semibold text-amber-800">Mostrar en banner de novedades</span>
-            </label>
+            <ProductBannerFields
+              showInBanner={showInBanner}
+              bannerOrder={bannerOrder}
+              bannerText={bannerText}
+              onShowInBannerChange={setShowInBanner}
+              onBannerOrderChange={setBannerOrder}
+              onBannerTextChange={setBannerText}
+            />
 
             <button
               type="submit"
@@ -589,6 +686,27 @@ export const AdminPage = () => {
             >
               Moderar Comentarios
             </button>
+            <button
+              type="button"
+              onClick={() => navigate('/admin/ventas')}
+              className="rounded-xl border border-primary-500 px-4 py-3 text-sm font-semibold text-primary-700 hover:bg-primary-50"
+            >
+              Registrar Ventas
+            </button>
+            <button
+              type="button"
+              onClick={() => navigate('/admin/anuncios')}
+              className="rounded-xl border border-primary-500 px-4 py-3 text-sm font-semibold text-primary-700 hover:bg-primary-50"
+            >
+              Gestionar Anuncios
+            </button>
+            <button
+              type="button"
+              onClick={() => navigate('/admin/configuracion')}
+              className="rounded-xl border border-primary-500 px-4 py-3 text-sm font-semibold text-primary-700 hover:bg-primary-50"
+            >
+              Configurar Tienda
+            </button>
             <button
               type="button"
               onClick={() => navigate('/')}
@@ -1,11 +1,17 @@
-import { useEffect, useMemo, useState } from 'react'
+import { useEffect, useState } from 'react'
 import type { FormEvent } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
 import { StoreFooter } from '../components/StoreFooter'
+import { ProductBannerFields } from '../components/ProductBannerFields'
+import { ProductImagesEditor } from '../components/ProductImagesEditor'
+import type { ProductImageDraft } from '../components/ProductImagesEditor'
+import { ProductSaleFields } from '../components/ProductSaleFields'
+import { ProductVariantsEditor } from '../components/ProductVariantsEditor'
 import { StoreHeader } from '../components/StoreHeader'
 import { apiService } from '../services/api'
-import type { Product } from '../types/product'
-import { getProductBannerFlag, setProductBannerFlag } from '../utils/bannerSettings'
+import type { Product, ProductVariant, ProductVariantGroup } from '../types/product'
+import { fromDateInputValue, toDateInputValue } from '../utils/dateInput'
+import { parseStockInput } from '../utils/productStock'
 
 const NEW_CATEGORY_VALUE = '__new_category__'
 
@@ -23,12 +29,20 @@ export const EditProductPage = () => {
   const [name, setName] = useState('')
   const [description, setDescription] = useState('')
   const [price, setPrice] = useState('')
+  const [stock, setStock] = useState('')
+  const [salePrice, setSalePrice] = useState('')
+  const [saleStartsAt, setSaleStartsAt] = useState('')
+  const [saleEndsAt, setSaleEndsAt] = useState('')
   const [categories, setCategories] = useState<string[]>([])
   const [selectedCategory, setSelectedCategory] = useState('')
   const [newCategory, setNewCategory] = useState('')
-  const [imageFile, setImageFile] = useState<File | null>(null)
+  const [imageDrafts, setImageDrafts] = useState<ProductImageDraft[]>([])
   const [isNew, setIsNew] = useState(false)
+  const [bannerOrder, setBannerOrder] = useState('')
+  const [bannerText, setBannerText] = useState('')
   const [showInBanner, setShowInBanner] = useState(false)
+  const [variantGroups, setVariantGroups] = useState<ProductVariantGroup[]>([])
+  const [variants, setVariants] = useState<ProductVariant[]>([])
 
   useEffect(() => {
     const loadProduct = async () => {
@@ -61,9 +75,19 @@ export const EditProductPage = () => {
         setName(fetchedProduct.name)
         setDescription(fetchedProduct.description)
         setPrice(String(fetchedProduct.price))
+        setStock(fetchedProduct.stock === null || fetchedProduct.stock === undefined ? '' : String(fetchedProduct.stock))
+        setSalePrice(fetchedProduct.salePrice ? String(fetchedProduct.salePrice) : '')
+        setSaleStartsAt(toDateInputValue(fetchedProduct.saleStartsAt))
+        setSaleEndsAt(toDateInputValue(fetchedProduct.saleEndsAt))
         setSelectedCategory(fetchedProduct.category.trim())
         setIsNew(fetchedProduct.isNew)
-        setShowInBanner(getProductBannerFlag(fetchedProduct))
+        setShowInBanner(fetchedProduct.showInBanner ?? fetchedProduct.isNew)
+        setBannerOrder(fetchedProduct.bannerOrder ? String(fetchedProduct.bannerOrder) : '')
+        setBannerText(fetchedProduct.bannerText ?? '')
+        const images = fetchedProduct.images?.length ? fetchedProduct.images : [fetchedProduct.image]
+        setImageDrafts(images.map((url) => ({ id: url, url, file: null })))
+        setVariantGroups(fetchedProduct.variantGroups ?? [])
+        setVariants(fetchedProduct.variants ?? [])
       }
       setLoading(false)
     }
@@ -71,22 +95,6 @@ export const EditProductPage = () => {
     void loadProduct()
   }, [id])
 
-  const preview = useMemo(() => {
-    if (imageFile) {
-      return URL.createObjectURL(imageFile)
-    }
-
-    return product?.image ?? ''
-  }, [imageFile, product?.image])
-
-  useEffect(() => {
-    if (!imageFile || !preview) return
-
-    return () => {
-      URL.revokeObjectURL(preview)
-    }
-  }, [imageFile, preview])
-
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault()
     if (!id || !product) return
@@ -94,7 +102,7 @@ export const EditProductPage = () => {
     const categoryValue = selectedCategory === NEW_CATEGORY_VALUE ? newCategory : selectedCategory
     const normalizedCategory = categoryValue.trim()
 
-    if (!name || !description || !price || !normalizedCategory) {
+    if (!name || !description || !price || !normalizedCategory || imageDrafts.length === 0) {
       window.alert('Por favor completa todos los campos')
       return
     }
@@ -105,27 +113,64 @@ export const EditProductPage = () => {
       return
     }
 
+    const stockValue = parseStockInput(stock)
+    if (stockValue === undefined) {
+      window.alert('El stock debe ser un número entero igual o mayor a 0')
+      return
+    }
+
+    const salePriceNumber = salePrice.trim() ? Number(salePrice) : null
+    if (salePriceNumber !== null && (!Number.isFinite(salePriceNumber) || salePriceNumber <= 0 || salePriceNumber >= priceNumber)) {
+      window.alert('El precio de oferta debe ser menor al precio normal')
+      return
+    }
+
+    if (saleStartsAt && saleEndsAt && saleStartsAt > saleEndsAt) {
+      window.alert('La fecha de fin de la oferta debe ser posterior a la de inicio')
+      return
+    }
+
+    const bannerOrderNumber = bannerOrder.trim() ? Number(bannerOrder) : null
+    if (bannerOrderNumber !== null && (!Number.isInteger(bannerOrderNumber) || bannerOrderNumber <= 0)) {
+      window.alert('El orden del banner debe ser un número entero mayor a 0')
+      return
+    }
+
+    if (variantGroups.some((group) => !group.name.trim() || group.options.length === 0)) {
+      window.alert('Cada grupo de variantes necesita un nombre y al menos una opción')
+      return
+    }
+
     setSaving(true)
 
-    let finalImage = product.image
-    if (imageFile) {
-      const uploadedImage = await apiService.uploadImage(imageFile)
-      if (!uploadedImage) {
-        setSaving(false)
-        window.alert('No se pudo subir la imagen')
-        return
-      }
-      finalImage = uploadedImage
+    const uploadedImages = await apiService.uploadImages(imageDrafts.flatMap((draft) => (draft.file ? [draft.file] : [])))
+    if (!uploadedImages) {
+      setSaving(false)
+      window.alert('No se pudo subir la imagen')
+      return
     }
 
+    let uploadIndex = 0
+    const finalImages = imageDrafts.map((draft) => (draft.file ? uploadedImages[uploadIndex++] : draft.url))
+
     const updatedProduct: Product = {
       id: product.id,
       name,
       description,
       price: priceNumber,
       category: normalizedCategory,
-      image: finalImage,
+      image: finalImages[0],
+      images: finalImages,
       isNew,
+      showInBanner,
+      bannerOrder: showInBanner ? bannerOrderNumber : null,
+      bannerText: showInBanner ? bannerText.trim() : '',
+      stock: stockValue,
+      salePrice: salePriceNumber,
+      saleStartsAt: salePriceNumber ? fromDateInputValue(saleStartsAt, 'start') : null,
+      saleEndsAt: salePriceNumber ? fromDateInputValue(saleEndsAt, 'end') : null,
+      variantGroups,
+      variants,
     }
 
     const response = await apiService.updateProduct(id, updatedProduct)
@@ -142,8 +187,6 @@ export const EditProductPage = () => {
       return sortCategories([...prev, normalizedCategory])
     })
 
-    setProductBannerFlag(product.id, showInBanner)
-
     window.alert('Producto actualizado correctamente')
     navigate('/admin/productos')
   }
@@ -173,42 +216,14 @@ export const EditProductPage = () => {
             </div>
           ) : (
             <form onSubmit={handleSubmit} className="space-y-4">
-              <label className="block">
-                <span className="mb-1 block text-sm font-semibold text-gray-700">Cambiar foto</span>
-                <input
-                  id="edit-image-file"
-                  type="file"
-                  accept="image/*"
-                  onChange={(event) => setImageFile(event.target.files?.[0] ?? null)}
-                  className="hidden"
+              <div className="block">
+                <span className="mb-1 block text-sm font-semibold text-gray-700">Fotos del producto</span>
+                <ProductImagesEditor
+                  inputId="edit-image-file"
+                  images={imageDrafts}
+                  onChange={setImageDrafts}
                 />
-                <div className="space-y-2">
-                  <div className="flex items-center gap-3">
-                    <label
-                      htmlFor="edit-image-file"
-                      className="inline-flex cursor-pointer items-center gap-2 rounded-xl bg-primary-600 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-primary-700"
-                    >
-                      📸 Seleccionar imagen
-                    </label>
-                    {preview ? (
-                      <img
-                        src={preview}
-                        alt="Miniatura"
-                        className="h-11 w-11 rounded-full border border-primary-200 object-cover"
-                      />
-                    ) : (
-                      <div className="flex h-11 w-11 items-center justify-center rounded-full border border-dashed border-gray-300 text-lg text-gray-400">
-                        🖼️
-                      </div>
-                    )}
-                  </div>
-                  <p className="text-xs text-gray-600">{imageFile ? imageFile.name : 'Sin cambios de imagen'}</p>
-                </div>
-              </label>
-
-              {preview ? (
-                <img src={preview} alt="Preview" className="h-56 w-full rounded-2xl object-cover" />
-              ) : null}
+              </div>
 
               <label className="block">
                 <span className="mb-1 block text-sm font-semibold text-gray-700">Nombre del producto</span>
@@ -257,6 +272,28 @@ export const EditProductPage = () => {
                 </label>
               </div>
 
+              <label className="block">
+                <span className="mb-1 block text-sm font-semibold text-gray-700">Stock disponible</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={stock}
+                  onChange={(event) => setStock(event.target.value)}
+                  placeholder="Vacío = sin control de stock"
+                  className="h-12 w-full rounded-xl border border-gray-300 px-4 text-sm outline-none ring-primary-200 focus:ring"
+                />
+              </label>
+
+              <ProductSaleFields
+                salePrice={salePrice}
+                startsAt={saleStartsAt}
+                endsAt={saleEndsAt}
+                onSalePriceChange={setSalePrice}
+                onStartsAtChange={setSaleStartsAt}
+                onEndsAtChange={setSaleEndsAt}
+              />
+
               {selectedCategory === NEW_CATEGORY_VALUE ? (
                 <label className="block">
                   <span className="mb-1 block text-sm font-semibold text-gray-700">Nueva categoría</span>
@@ -269,19 +306,29 @@ export const EditProductPage = () => {
                 </label>
               ) : null}
 
+              <ProductVariantsEditor
+                groups={variantGroups}
+                variants={variants}
+                basePrice={price}
+                onChange={(nextGroups, nextVariants) => {
+                  setVariantGroups(nextGroups)
+                  setVariants(nextVariants)
+                }}
+              />
+
               <label className="flex items-center gap-3 rounded-xl border border-gray-300 bg-gray-50 px-4 py-3">
                 <input type="checkbox" checked={isNew} onChange={() => setIsNew((prev) => !prev)} />
                 <span className="text-sm font-semibold text-gray-700">Marcar como nuevo</span>
               </label>
 
-              <label className="flex items-center gap-3 rounded-xl border border-amber-300 bg-amber-50 px-4 py-3">
-                <input
-                  type="checkbox"
-                  checked={showInBanner}
-                  onChange={() => setShowInBanner((prev) => !prev)}
-                />
-                <span className="text-sm font-semibold text-amber-800">Mostrar en banner de novedades</span>
-              </label>
+              <ProductBannerFields
+                showInBanner={showInBanner}
+                bannerOrder={bannerOrder}
+                bannerText={bannerText}
+                onShowInBannerChange={setShowInBanner}
+                onBannerOrderChange={setBannerOrder}
+                onBannerTextChange={setBannerText}
+              />
 
               <button
                 type="submit"
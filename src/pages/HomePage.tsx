@@ -1,21 +1,34 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import { CatalogFilterPanel } from '../components/CatalogFilterPanel'
+import { CatalogSearchBox } from '../components/CatalogSearchBox'
 import { CustomerReviewsSection } from '../components/CustomerReviewsSection'
 import { ProductCard } from '../components/ProductCard'
 import { StoreFooter } from '../components/StoreFooter'
 import { StoreHeader } from '../components/StoreHeader'
 import { apiService, authService } from '../services/api'
+import type { Announcement } from '../types/announcement'
 import type { Product } from '../types/product'
-import type { Review } from '../types/review'
+import type { PublicReviewStats, Review } from '../types/review'
 import { usePaginationLimit } from '../hooks/usePaginationLimit'
 import { buildCompactPagination } from '../utils/pagination'
-import { getProductBannerFlag } from '../utils/bannerSettings'
-import { openWhatsApp } from '../utils/whatsapp'
+import { getAnnouncementBadge, isAnnouncementLive, sortAnnouncements } from '../utils/announcements'
+import { ECUADOR_TIMEZONE } from '../utils/businessHours'
+import { addCartItem } from '../utils/cart'
+import { buildCategoryFacets, countActiveFilters, getPriceBounds, matchesCatalogFilters } from '../utils/catalogFilters'
+import type { CatalogFilters, PriceRange } from '../utils/catalogFilters'
+import { buildCatalogLocation, readCatalogQuery, slugifyCategory } from '../utils/catalogQuery'
+import type { CatalogQuery, CatalogSortField } from '../utils/catalogQuery'
+import { getDiscountPercent, getEffectivePrice } from '../utils/productPricing'
+import { searchProducts, tokenizeSearchQuery } from '../utils/productSearch'
+import { hasVariants } from '../utils/productVariants'
+import { buildProductRatings, getRatingDistribution } from '../utils/reviews'
+import { getOrCreateVisitorId } from '../utils/visitor'
+import { buildProductContactMessage, formatPrice, openWhatsApp } from '../utils/whatsapp'
 
-const VISITOR_ID_STORAGE_KEY = '@fl_store_visitor_id'
 const VISIT_TRACK_STORAGE_KEY = '@fl_store_last_visit_day'
 const PRODUCTS_PER_PAGE = 6
-const ECUADOR_TIMEZONE = 'America/Guayaquil'
+const NEWS_ROTATION_INTERVAL_MS = 3200
 
 const getEcuadorDayKey = () => {
   return new Intl.DateTimeFormat('en-CA', {
@@ -26,40 +39,61 @@ const getEcuadorDayKey = () => {
   }).format(new Date())
 }
 
-const getOrCreateVisitorId = () => {
-  let currentVisitorId = localStorage.getItem(VISITOR_ID_STORAGE_KEY)
+const CATALOG_SORT_OPTIONS: Array<{ value: Exclude<CatalogSortField, 'relevance'>; label: string; icon: string }> = [
+  { value: 'name', label: 'Nombre', icon: '🔤' },
+  { value: 'price', label: 'Precio', icon: '💲' },
+  { value: 'discount', label: 'Descuento', icon: '🏷️' },
+  { value: 'newest', label: 'Novedad', icon: '🆕' },
+  { value: 'rating', label: 'Calificación', icon: '⭐' },
+  { value: 'views', label: 'Más vistos', icon: '👀' },
+]
 
-  if (!currentVisitorId) {
-    currentVisitorId = globalThis.crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random()}`
-    localStorage.setItem(VISITOR_ID_STORAGE_KEY, currentVisitorId)
-  }
+const DESCENDING_SORT_FIELDS: CatalogSortField[] = ['discount', 'newest', 'rating', 'views']
 
-  return currentVisitorId
-}
+const getCreatedTime = (product: Product) => (product.createdAt ? new Date(product.createdAt).getTime() : 0)
+
+type NewsItem = Pick<Announcement, 'type' | 'text' | 'customLabel' | 'linkType' | 'linkValue'>
+
+const DEFAULT_NEWS_ITEMS: NewsItem[] = [
+  { type: 'oferta', text: 'Ofertas exclusivas activas hoy en FL Store', customLabel: '', linkType: 'none', linkValue: '' },
+  { type: 'envio', text: 'Envíos rápidos y seguros en todo momento', customLabel: '', linkType: 'none', linkValue: '' },
+]
 
 export const HomePage = () => {
   const paginationLimit = usePaginationLimit()
   const navigate = useNavigate()
+  const { slug = '' } = useParams()
+  const [searchParams] = useSearchParams()
   const [products, setProducts] = useState<Product[]>([])
   const [loading, setLoading] = useState(true)
-  const [searchText, setSearchText] = useState('')
-  const [selectedCategory, setSelectedCategory] = useState('Todas')
   const [newsIndex, setNewsIndex] = useState(0)
-  const [currentPage, setCurrentPage] = useState(1)
-  const [sortField, setSortField] = useState<'name' | 'price'>('name')
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc')
+  const [isNewsPaused, setIsNewsPaused] = useState(false)
+  const [announcements, setAnnouncements] = useState<Announcement[]>([])
   const [showSortInfo, setShowSortInfo] = useState(false)
   const sortInfoRef = useRef<HTMLDivElement | null>(null)
   const [publicReviews, setPublicReviews] = useState<Review[]>([])
-  const [reviewsStats, setReviewsStats] = useState({
+  const [reviewsStats, setReviewsStats] = useState<PublicReviewStats>({
     totalReviews: 0,
     averageRating: 0,
     totalLikes: 0,
+    ratingDistribution: getRatingDistribution([]),
   })
   const [totalVisits, setTotalVisits] = useState(0)
   const [backendAndroidApkUrl, setBackendAndroidApkUrl] = useState('')
   const [backendApkAvailable, setBackendApkAvailable] = useState(false)
   const [visitorId] = useState(getOrCreateVisitorId)
+  const catalogQuery = useMemo(() => readCatalogQuery(searchParams, slug), [searchParams, slug])
+  const { search: searchText, sortField, sortDirection, page: currentPage } = catalogQuery
+
+  const updateCatalogQuery = (changes: Partial<CatalogQuery>, options: { replace?: boolean } = {}) => {
+    navigate(buildCatalogLocation({ ...catalogQuery, ...changes }), { replace: options.replace })
+  }
+
+  const setCurrentPage = (page: number) => updateCatalogQuery({ page })
+
+  const selectCategory = (category: string, changes: Partial<CatalogQuery> = {}) => {
+    updateCatalogQuery({ ...changes, categorySlugs: [slugifyCategory(category)], page: 1 })
+  }
 
   const configuredAndroidApkUrl = String(import.meta.env.VITE_MOBILE_ANDROID_APK_URL ?? '').trim()
   const androidApkUrl = configuredAndroidApkUrl || backendAndroidApkUrl
@@ -79,6 +113,22 @@ export const HomePage = () => {
     void loadProducts()
   }, [])
 
+  useEffect(() => {
+    let isMounted = true
+
+    const loadAnnouncements = async () => {
+      const fetchedAnnouncements = await apiService.getAnnouncements()
+      if (!isMounted) return
+      setAnnouncements(fetchedAnnouncements)
+    }
+
+    void loadAnnouncements()
+
+    return () => {
+      isMounted = false
+    }
+  }, [])
+
   const loadPublicReviews = useCallback(async () => {
     if (!visitorId) return
 
@@ -176,29 +226,60 @@ export const HomePage = () => {
       first.localeCompare(second, 'es', { sensitivity: 'base' })
     )
 
-    return ['Todas', ...sortedCategories]
+    return sortedCategories
   }, [visibleProducts])
 
-  const normalizedSelectedCategory = useMemo(() => {
-    const normalized = selectedCategory.trim().toLowerCase()
-    const available = categories.map((item) => item.trim().toLowerCase())
-    return available.includes(normalized) ? normalized : 'todas'
-  }, [categories, selectedCategory])
+  const priceBounds = useMemo(() => getPriceBounds(visibleProducts), [visibleProducts])
+
+  const catalogFilters = useMemo<CatalogFilters>(() => {
+    const { minPrice, maxPrice } = catalogQuery
+    const availableSlugs = categories.map(slugifyCategory)
+
+    return {
+      categorySlugs: catalogQuery.categorySlugs.filter((slug) => availableSlugs.includes(slug)),
+      priceRange:
+        minPrice === null && maxPrice === null
+          ? null
+          : {
+              min: Math.max(priceBounds.min, minPrice ?? priceBounds.min),
+              max: Math.min(priceBounds.max, maxPrice ?? priceBounds.max),
+            },
+      onlyNew: catalogQuery.onlyNew,
+      onlyOffers: catalogQuery.onlyOffers,
+    }
+  }, [catalogQuery, categories, priceBounds])
+
+  const hasSearchQuery = tokenizeSearchQuery(searchText).length > 0
+
+  const searchedProducts = useMemo(() => searchProducts(visibleProducts, searchText), [visibleProducts, searchText])
 
   const filteredProducts = useMemo(() => {
+    return searchedProducts.filter((item) => matchesCatalogFilters(item, catalogFilters))
+  }, [searchedProducts, catalogFilters])
 
-    return visibleProducts.filter((item) => {
-      const matchesSearch = item.name.toLowerCase().includes(searchText.toLowerCase())
-      const matchesCategory =
-        normalizedSelectedCategory === 'todas' || item.category.trim().toLowerCase() === normalizedSelectedCategory
-      return matchesSearch && matchesCategory
-    })
-  }, [visibleProducts, searchText, normalizedSelectedCategory])
+  const categoryFacets = useMemo(() => {
+    return buildCategoryFacets(searchedProducts, categories, catalogFilters)
+  }, [searchedProducts, categories, catalogFilters])
+
+  const newCount = useMemo(() => {
+    return searchedProducts.filter((item) => item.isNew && matchesCatalogFilters(item, catalogFilters, 'onlyNew')).length
+  }, [searchedProducts, catalogFilters])
+
+  const offersCount = useMemo(() => {
+    return searchedProducts.filter((item) => getDiscountPercent(item) > 0 && matchesCatalogFilters(item, catalogFilters, 'onlyOffers'))
+      .length
+  }, [searchedProducts, catalogFilters])
+
+  const activeFilterCount = countActiveFilters(catalogFilters)
+
+  const productRatings = useMemo(() => buildProductRatings(publicReviews), [publicReviews])
 
   const sortedProducts = useMemo(() => {
     const sorted = [...filteredProducts]
 
-    if (sortField === 'name') {
+    if (sortField === 'relevance' && hasSearchQuery) return sorted
+
+    if (sortField === 'name' || sortField === 'relevance') {
       sorted.sort((first, second) => {
         const compareValue = first.name.localeCompare(second.name, 'es', { sensitivity: 'base' })
         return sortDirection === 'asc' ? compareValue : -compareValue
@@ -206,13 +287,25 @@ export const HomePage = () => {
       return sorted
     }
 
+    const getSortValue = (product: Product) => {
+      if (sortField === 'discount') return getDiscountPercent(product)
+      if (sortField === 'newest') return getCreatedTime(product)
+      if (sortField === 'views') return product.viewCount ?? 0
+      if (sortField === 'rating') return productRatings[product.id]?.averageRating ?? 0
+      return getEffectivePrice(product)
+    }
+
     sorted.sort((first, second) => {
-      const compareValue = first.price - second.price
+      const compareValue =
+        getSortValue(first) - getSortValue(second) ||
+        (sortField === 'rating'
+          ? (productRatings[first.id]?.totalReviews ?? 0) - (productRatings[second.id]?.totalReviews ?? 0)
+          : 0)
       return sortDirection === 'asc' ? compareValue : -compareValue
     })
 
     return sorted
-  }, [filteredProducts, sortField, sortDirection])
+  }, [filteredProducts, hasSearchQuery, productRatings, sortField, sortDirection])
 
   const totalPages = Math.max(1, Math.ceil(sortedProducts.length / PRODUCTS_PER_PAGE))
 
@@ -258,50 +351,111 @@ export const HomePage = () => {
     }
   }, [showSortInfo])
 
-  const handleSortSelect = (field: 'name' | 'price') => {
+  const handleSearchChange = (value: string) => {
+    const nextHasSearchQuery = tokenizeSearchQuery(value).length > 0
+    const changes: Partial<CatalogQuery> = { search: value, page: 1 }
+    if (!hasSearchQuery && nextHasSearchQuery) changes.sortField = 'relevance'
+    if (!nextHasSearchQuery && sortField === 'relevance') {
+      changes.sortField = 'name'
+      changes.sortDirection = 'asc'
+    }
+    updateCatalogQuery(changes, { replace: true })
+  }
+
+  const toggleCategory = (slug: string) => {
+    const { categorySlugs } = catalogFilters
+    const nextSlugs = categorySlugs.includes(slug) ? categorySlugs.filter((item) => item !== slug) : [...categorySlugs, slug]
+    updateCatalogQuery({ categorySlugs: nextSlugs, page: 1 })
+  }
+
+  const handlePriceChange = (range: PriceRange) => {
+    updateCatalogQuery(
+      {
+        minPrice: range.min <= priceBounds.min ? null : range.min,
+        maxPrice: range.max >= priceBounds.max ? null : range.max,
+        page: 1,
+      },
+      { replace: true }
+    )
+  }
+
+  const handleAddToCart = (product: Product) => {
+    if (hasVariants(product)) {
+      navigate(`/producto/${product.id}`)
+      return
+    }
+
+    if (addCartItem(product) === 0) {
+      window.alert('Ya tienes en el carrito todas las unidades disponibles de este producto')
+    }
+  }
+
+  const clearFilters = () => {
+    updateCatalogQuery({ categorySlugs: [], minPrice: null, maxPrice: null, onlyNew: false, onlyOffers: false, page: 1 })
+  }
+
+  const handleSortSelect = (field: CatalogSortField) => {
+    if (field === 'relevance') {
+      updateCatalogQuery({ sortField: field, page: 1 })
+      return
+    }
+
     if (sortField === field) {
-      setSortDirection((prev) => (prev === 'asc' ? 'desc' : 'asc'))
-      setCurrentPage(1)
+      updateCatalogQuery({ sortDirection: sortDirection === 'asc' ? 'desc' : 'asc', page: 1 })
       return
     }
 
-    setSortField(field)
-    setSortDirection('asc')
-    setCurrentPage(1)
+    updateCatalogQuery({ sortField: field, sortDirection: DESCENDING_SORT_FIELDS.includes(field) ? 'desc' : 'asc', page: 1 })
   }
 
+  const currentSortOption = CATALOG_SORT_OPTIONS.find((option) => option.value === sortField) ?? CATALOG_SORT_OPTIONS[0]
   const currentSortText =
-    sortField === 'name'
-      ? `Orden actual: Nombre ${sortDirection === 'asc' ? 'ascendente' : 'descendente'}`
-      : `Orden actual: Precio ${sortDirection === 'asc' ? 'ascendente' : 'descendente'}`
+    sortField === 'relevance' && hasSearchQuery
+      ? 'Orden actual: Relevancia de búsqueda'
+      : `Orden actual: ${currentSortOption.label} ${sortDirection === 'asc' ? 'ascendente' : 'descendente'}`
 
   const newsItems = useMemo(() => {
-    const bannerProducts = visibleProducts.filter((item) => getProductBannerFlag(item)).slice(0, 3)
-    const base = [
-      { type: 'oferta', text: 'Ofertas exclusivas activas hoy en FL Store' },
-      { type: 'envio', text: 'Envíos rápidos y seguros en todo momento' },
-    ]
+    const bannerProducts = visibleProducts
+      .filter((item) => item.showInBanner)
+      .sort((first, second) => (first.bannerOrder ?? Number.MAX_SAFE_INTEGER) - (second.bannerOrder ?? Number.MAX_SAFE_INTEGER))
+      .slice(0, 3)
+    const liveAnnouncements = sortAnnouncements(announcements.filter((item) => isAnnouncementLive(item)))
+    const base: NewsItem[] = liveAnnouncements.length > 0 ? liveAnnouncements : DEFAULT_NEWS_ITEMS
 
     if (bannerProducts.length > 0) {
-      const dynamicNews = bannerProducts.map((item) => ({
+      const dynamicNews = bannerProducts.map<NewsItem>((item) => ({
         type: 'nuevo',
-        text: `Nuevo ingreso: ${item.name} por $${item.price}`,
+        text: item.bannerText || `Nuevo ingreso: ${item.name} por $${formatPrice(getEffectivePrice(item))}`,
+        customLabel: '',
+        linkType: 'product',
+        linkValue: item.id,
       }))
       return [...dynamicNews, ...base]
     }
 
     return base
-  }, [visibleProducts])
+  }, [announcements, visibleProducts])
 
-  const currentNews = newsItems[newsIndex]
+  const currentNews = newsItems[newsIndex % Math.max(1, newsItems.length)]
 
   const currentBadge = useMemo(() => {
     if (!currentNews) return '✨ NOVEDADES'
-    if (currentNews.type === 'nuevo') return '🆕 NUEVO'
-    if (currentNews.type === 'envio') return '🚚 ENVÍO'
-    return '🔥 OFERTA'
+    return getAnnouncementBadge(currentNews)
   }, [currentNews])
 
+  const handleNewsClick = () => {
+    if (!currentNews) return
+
+    if (currentNews.linkType === 'product') {
+      navigate(`/producto/${currentNews.linkValue}`)
+      return
+    }
+
+    if (currentNews.linkType === 'category') {
+      selectCategory(currentNews.linkValue)
+    }
+  }
+
   const newsVariant = useMemo(() => {
     if (!currentNews) {
       return {
@@ -327,6 +481,14 @@ export const HomePage = () => {
       }
     }
 
+    if (currentNews.type === 'custom') {
+      return {
+        wrapper: 'border-violet-300 bg-linear-to-r from-violet-50 to-fuchsia-50 shadow-[0_8px_20px_rgba(139,92,246,0.16)]',
+        badge: 'bg-violet-500 text-white',
+        text: 'text-violet-900',
+      }
+    }
+
     return {
       wrapper: 'border-amber-300 bg-linear-to-r from-amber-50 to-orange-50 shadow-[0_8px_20px_rgba(245,158,11,0.15)]',
       badge: 'bg-amber-500 text-slate-900',
@@ -335,14 +497,14 @@ export const HomePage = () => {
   }, [currentNews])
 
   useEffect(() => {
-    if (newsItems.length <= 1) return
+    if (newsItems.length <= 1 || isNewsPaused) return
 
     const timer = window.setInterval(() => {
       setNewsIndex((prev) => (prev + 1) % newsItems.length)
-    }, 3200)
+    }, NEWS_ROTATION_INTERVAL_MS)
 
     return () => window.clearInterval(timer)
-  }, [newsItems])
+  }, [isNewsPaused, newsItems])
 
   return (
     <div className="min-h-screen bg-linear-to-b from-primary-900 via-primary-700 to-primary-500">
@@ -365,8 +527,17 @@ export const HomePage = () => {
             </div>
           </div>
 
-          <div className={`mb-5 overflow-hidden rounded-2xl border transition-colors duration-500 ${newsVariant.wrapper}`}>
-            <div className="flex items-center gap-3 px-4 py-2.5">
+          <div
+            onMouseEnter={() => setIsNewsPaused(true)}
+            onMouseLeave={() => setIsNewsPaused(false)}
+            className={`mb-5 overflow-hidden rounded-2xl border transition-colors duration-500 ${newsVariant.wrapper}`}
+          >
+            <button
+              type="button"
+              onClick={handleNewsClick}
+              disabled={!currentNews || currentNews.linkType === 'none'}
+              className="flex w-full items-center gap-3 px-4 py-2.5 text-left enabled:cursor-pointer"
+            >
               <span
                 key={currentBadge}
                 className={`rounded-full px-2.5 py-1 text-[10px] font-bold tracking-wide transition-colors duration-500 ${newsVariant.badge}`}
@@ -381,163 +552,185 @@ export const HomePage = () => {
                   {currentNews?.text ?? ''}
                 </p>
               </div>
-            </div>
-          </div>
-
-          <div className="mb-6 grid gap-3 md:grid-cols-[2fr_3fr]">
-            <div className="flex items-center rounded-xl border border-gray-200 bg-gray-50 px-4">
-              <span className="mr-2 text-lg">🔍</span>
-              <input
-                value={searchText}
-                onChange={(event) => setSearchText(event.target.value)}
-                onInput={() => setCurrentPage(1)}
-                placeholder="Buscar productos..."
-                className="w-full bg-transparent py-3 text-sm text-gray-700 outline-none"
-              />
-            </div>
-
-            <div className="flex gap-2 overflow-x-auto pb-1">
-              {categories.map((category) => (
-                <button
-                  key={category}
-                  type="button"
-                  onClick={() => {
-                    setSelectedCategory(category)
-                    setCurrentPage(1)
-                  }}
-                  className={`whitespace-nowrap rounded-full border px-4 py-2 text-sm font-semibold transition ${
-                    normalizedSelectedCategory === category.trim().toLowerCase()
-                      ? 'border-primary-600 bg-primary-600 text-white'
-                      : 'border-gray-300 bg-white text-gray-700 hover:border-primary-500 hover:text-primary-600'
-                  }`}
-                >
-                  {category}
-                </button>
-              ))}
-            </div>
-          </div>
-
-          <div className="mb-6 flex flex-wrap items-center justify-between gap-3 rounded-xl border border-gray-200 bg-gray-50/70 px-4 py-3">
-            <div ref={sortInfoRef} className="relative flex items-center gap-2">
-              <p className="text-sm font-semibold text-gray-700">Ordenar catálogo:</p>
-              <button
-                type="button"
-                aria-label="Mostrar orden actual"
-                onMouseEnter={() => setShowSortInfo(true)}
-                onMouseLeave={() => setShowSortInfo(false)}
-                onFocus={() => setShowSortInfo(true)}
-                onBlur={() => setShowSortInfo(false)}
-                onClick={() => setShowSortInfo((prev) => !prev)}
-                className="inline-flex h-6 w-6 items-center justify-center rounded-full border border-primary-200 bg-white text-xs font-bold text-primary-700 transition hover:border-primary-400"
-              >
-                ℹ️
-              </button>
-
-              {showSortInfo && (
-                <div className="absolute left-0 top-8 z-20 w-64 rounded-xl border border-primary-200 bg-white px-3 py-2 text-xs font-semibold text-gray-700 shadow-lg">
-                  {currentSortText}
-                </div>
+              {currentNews && currentNews.linkType !== 'none' && (
+                <span className={`text-sm font-bold ${newsVariant.text}`}>→</span>
               )}
-            </div>
-            <div className="flex flex-wrap items-center gap-2">
-              <span className="rounded-full border border-primary-200 bg-primary-50 px-3 py-1.5 text-sm font-semibold text-primary-700">
-                👁️ {totalVisits} visitas
-              </span>
-              <button
-                type="button"
-                onClick={() => handleSortSelect('name')}
-                className={`rounded-full border px-3 py-1.5 text-sm font-semibold transition ${
-                  sortField === 'name'
-                    ? 'border-primary-600 bg-primary-600 text-white'
-                    : 'border-gray-300 bg-white text-gray-700 hover:border-primary-500 hover:text-primary-600'
-                }`}
-              >
-                🔤 Nombre {sortField === 'name' ? (sortDirection === 'asc' ? '↑' : '↓') : ''}
-              </button>
-              <button
-                type="button"
-                onClick={() => handleSortSelect('price')}
-                className={`rounded-full border px-3 py-1.5 text-sm font-semibold transition ${
-                  sortField === 'price'
-                    ? 'border-primary-600 bg-primary-600 text-white'
-                    : 'border-gray-300 bg-white text-gray-700 hover:border-primary-500 hover:text-primary-600'
-                }`}
-              >
-                💲 Precio {sortField === 'price' ? (sortDirection === 'asc' ? '↑' : '↓') : ''}
-              </button>
-            </div>
+            </button>
           </div>
 
-          {loading ? (
-            <div className="py-16 text-center text-gray-600">Cargando productos...</div>
-          ) : filteredProducts.length === 0 ? (
-            <div className="rounded-xl border border-dashed border-gray-300 py-16 text-center">
-              <p className="text-lg font-semibold text-gray-800">No hay productos disponibles</p>
-              <p className="mt-2 text-sm text-gray-600">Usa el panel admin para agregar productos</p>
-            </div>
-          ) : (
-            <>
-              <div className="grid gap-5 md:grid-cols-2 xl:grid-cols-3">
-                {paginatedProducts.map((product) => (
-                  <ProductCard
-                    key={product.id}
-                    product={product}
-                    onView={() => navigate(`/producto/${product.id}`)}
-                    onContact={() => openWhatsApp(`Hola! Estoy interesado en: ${product.name}`)}
-                  />
-                ))}
-              </div>
+          <div className="mb-6">
+            <CatalogSearchBox
+              value={searchText}
+              products={visibleProducts}
+              categories={categories}
+              onChange={handleSearchChange}
+              onSelectCategory={(category) => selectCategory(category, { search: '' })}
+            />
+          </div>
 
-              {sortedProducts.length > PRODUCTS_PER_PAGE && (
-                <div className="mt-8 flex flex-wrap items-center justify-center gap-2">
+          <div className="md:grid md:grid-cols-[16rem_1fr] md:gap-6">
+            <CatalogFilterPanel
+              categories={categoryFacets}
+              priceBounds={priceBounds}
+              priceRange={catalogFilters.priceRange ?? priceBounds}
+              onlyNew={catalogFilters.onlyNew}
+              newCount={newCount}
+              onlyOffers={catalogFilters.onlyOffers}
+              offersCount={offersCount}
+              activeFilterCount={activeFilterCount}
+              resultCount={filteredProducts.length}
+              onToggleCategory={toggleCategory}
+              onPriceChange={handlePriceChange}
+              onToggleNew={() => updateCatalogQuery({ onlyNew: !catalogFilters.onlyNew, page: 1 })}
+              onToggleOffers={() => updateCatalogQuery({ onlyOffers: !catalogFilters.onlyOffers, page: 1 })}
+              onClear={clearFilters}
+            />
+
+            <div className="min-w-0">
+              <div className="mb-6 flex flex-wrap items-center justify-between gap-3 rounded-xl border border-gray-200 bg-gray-50/70 px-4 py-3">
+                <div ref={sortInfoRef} className="relative flex items-center gap-2">
+                  <p className="text-sm font-semibold text-gray-700">Ordenar catálogo:</p>
                   <button
                     type="button"
-                    disabled={safeCurrentPage === 1}
-                    onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
-                    className="rounded-xl border border-gray-300 px-3 py-2 text-sm font-semibold text-gray-700 transition hover:border-primary-500 hover:text-primary-600 disabled:cursor-not-allowed disabled:opacity-50"
+                    aria-label="Mostrar orden actual"
+                    onMouseEnter={() => setShowSortInfo(true)}
+                    onMouseLeave={() => setShowSortInfo(false)}
+                    onFocus={() => setShowSortInfo(true)}
+                    onBlur={() => setShowSortInfo(false)}
+                    onClick={() => setShowSortInfo((prev) => !prev)}
+                    className="inline-flex h-6 w-6 items-center justify-center rounded-full border border-primary-200 bg-white text-xs font-bold text-primary-700 transition hover:border-primary-400"
                   >
-                    <span className="sm:hidden">←</span>
-                    <span className="hidden sm:inline">Anterior</span>
+                    ℹ️
                   </button>
 
-                  {productPageNumbers.map((pageItem, index) => {
-                    if (pageItem === 'ellipsis') {
-                      return (
-                        <span key={`ellipsis-${index}`} className="px-1 text-primary-700">
-                          …
-                        </span>
-                      )
-                    }
+                  {showSortInfo && (
+                    <div className="absolute left-0 top-8 z-20 w-64 rounded-xl border border-primary-200 bg-white px-3 py-2 text-xs font-semibold text-gray-700 shadow-lg">
+                      {currentSortText}
+                    </div>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="rounded-full border border-primary-200 bg-primary-50 px-3 py-1.5 text-sm font-semibold text-primary-700">
+                    👁️ {totalVisits} visitas
+                  </span>
+                  {hasSearchQuery && (
+                    <button
+                      type="button"
+                      onClick={() => handleSortSelect('relevance')}
+                      className={`rounded-full border px-3 py-1.5 text-sm font-semibold transition ${
+                        sortField === 'relevance'
+                          ? 'border-primary-600 bg-primary-600 text-white'
+                          : 'border-gray-300 bg-white text-gray-700 hover:border-primary-500 hover:text-primary-600'
+                      }`}
+                    >
+                      🎯 Relevancia
+                    </button>
+                  )}
+                  {CATALOG_SORT_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => handleSortSelect(option.value)}
+                      className={`rounded-full border px-3 py-1.5 text-sm font-semibold transition ${
+                        sortField === option.value
+                          ? 'border-primary-600 bg-primary-600 text-white'
+                          : 'border-gray-300 bg-white text-gray-700 hover:border-primary-500 hover:text-primary-600'
+                      }`}
+                    >
+                      {option.icon} {option.label} {sortField === option.value ? (sortDirection === 'asc' ? '↑' : '↓') : ''}
+                    </button>
+                  ))}
+                </div>
+              </div>
 
-                    return (
+              {loading ? (
+                <div className="py-16 text-center text-gray-600">Cargando productos...</div>
+              ) : visibleProducts.length === 0 ? (
+                <div className="rounded-xl border border-dashed border-gray-300 py-16 text-center">
+                  <p className="text-lg font-semibold text-gray-800">No hay productos disponibles</p>
+                  <p className="mt-2 text-sm text-gray-600">Usa el panel admin para agregar productos</p>
+                </div>
+              ) : filteredProducts.length === 0 ? (
+                <div className="rounded-xl border border-dashed border-gray-300 py-16 text-center">
+                  <p className="text-lg font-semibold text-gray-800">No hay productos con estos filtros</p>
+                  {activeFilterCount > 0 && (
+                    <button
+                      type="button"
+                      onClick={clearFilters}
+                      className="mt-3 rounded-xl border border-primary-500 px-4 py-2 text-sm font-semibold text-primary-700"
+                    >
+                      Limpiar filtros
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <div className="grid gap-5 sm:grid-cols-2 md:grid-cols-1 lg:grid-cols-2 xl:grid-cols-3">
+                    {paginatedProducts.map((product) => (
+                      <ProductCard
+                        key={product.id}
+                        product={product}
+                        rating={productRatings[product.id]}
+                        highlightQuery={searchText}
+                        onView={() => navigate(`/producto/${product.id}`)}
+                        onContact={() => openWhatsApp(buildProductContactMessage('cardContact', product), product.category)}
+                        onAddToCart={() => handleAddToCart(product)}
+                      />
+                    ))}
+                  </div>
+
+                  {sortedProducts.length > PRODUCTS_PER_PAGE && (
+                    <div className="mt-8 flex flex-wrap items-center justify-center gap-2">
                       <button
-                        key={pageItem}
                         type="button"
-                        onClick={() => setCurrentPage(pageItem)}
-                        className={`rounded-xl px-3 py-2 text-sm font-semibold transition ${
-                          safeCurrentPage === pageItem
-                            ? 'bg-primary-600 text-white'
-                            : 'border border-gray-300 text-gray-700 hover:border-primary-500 hover:text-primary-600'
-                        }`}
+                        disabled={safeCurrentPage === 1}
+                        onClick={() => setCurrentPage(Math.max(1, safeCurrentPage - 1))}
+                        className="rounded-xl border border-gray-300 px-3 py-2 text-sm font-semibold text-gray-700 transition hover:border-primary-500 hover:text-primary-600 disabled:cursor-not-allowed disabled:opacity-50"
                       >
-                        {pageItem}
+                        <span className="sm:hidden">←</span>
+                        <span className="hidden sm:inline">Anterior</span>
                       </button>
-                    )
-                  })}
 
-                  <button
-                    type="button"
-                    disabled={safeCurrentPage === totalPages}
-                    onClick={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
-                    className="rounded-xl border border-gray-300 px-3 py-2 text-sm font-semibold text-gray-700 transition hover:border-primary-500 hover:text-primary-600 disabled:cursor-not-allowed disabled:opacity-50"
-                  >
-                    <span className="sm:hidden">→</span>
-                    <span className="hidden sm:inline">Siguiente</span>
-                  </button>
-                </div>
+                      {productPageNumbers.map((pageItem, index) => {
+                        if (pageItem === 'ellipsis') {
+                          return (
+                            <span key={`ellipsis-${index}`} className="px-1 text-primary-700">
+                              …
+                            </span>
+                          )
+                        }
+
+                        return (
+                          <button
+                            key={pageItem}
+                            type="button"
+                            onClick={() => setCurrentPage(pageItem)}
+                            className={`rounded-xl px-3 py-2 text-sm font-semibold transition ${
+                              safeCurrentPage === pageItem
+                                ? 'bg-primary-600 text-white'
+                                : 'border border-gray-300 text-gray-700 hover:border-primary-500 hover:text-primary-600'
+                            }`}
+                          >
+                            {pageItem}
+                          </button>
+                        )
+                      })}
+
+                      <button
+                        type="button"
+                        disabled={safeCurrentPage === totalPages}
+                        onClick={() => setCurrentPage(Math.min(totalPages, safeCurrentPage + 1))}
+                        className="rounded-xl border border-gray-300 px-3 py-2 text-sm font-semibold text-gray-700 transition hover:border-primary-500 hover:text-primary-600 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        <span className="sm:hidden">→</span>
+                        <span className="hidden sm:inline">Siguiente</span>
+                      </button>
+                    </div>
+                  )}
+                </>
               )}
-            </>
-          )}
+            </div>
+          </div>
 
           <CustomerReviewsSection
             products={visibleProducts}
@@ -545,6 +738,7 @@ export const HomePage = () => {
             averageRating={reviewsStats.averageRating}
             totalReviews={reviewsStats.totalReviews}
             totalLikes={reviewsStats.totalLikes}
+            ratingDistribution={reviewsStats.ratingDistribution}
             onReviewSent={loadPublicReviews}
             visitorId={visitorId}
           />
@@ -0,0 +1,460 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { FormEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { StoreFooter } from '../components/StoreFooter'
+import { StoreHeader } from '../components/StoreHeader'
+import { apiService } from '../services/api'
+import type { Announcement, AnnouncementPayload, AnnouncementType } from '../types/announcement'
+import type { Product } from '../types/product'
+import { ANNOUNCEMENT_TYPE_LABELS, getAnnouncementBadge, isAnnouncementLive, sortAnnouncements } from '../utils/announcements'
+import { fromDateInputValue, toDateInputValue } from '../utils/dateInput'
+
+const TYPE_OPTIONS: Array<{ value: AnnouncementType; label: string }> = [
+  { value: 'oferta', label: 'Oferta' },
+  { value: 'envio', label: 'Envío' },
+  { value: 'nuevo', label: 'Nuevo' },
+  { value: 'custom', label: 'Personalizado' },
+]
+
+const getAnnouncementStatus = (announcement: Announcement) => {
+  if (!announcement.isActive) return { label: 'Inactivo', className: 'bg-gray-200 text-gray-700' }
+  if (isAnnouncementLive(announcement)) return { label: 'Publicado', className: 'bg-emerald-100 text-emerald-700' }
+  if (announcement.startsAt && new Date(announcement.startsAt).getTime() > Date.now()) {
+    return { label: 'Programado', className: 'bg-sky-100 text-sky-700' }
+  }
+  return { label: 'Vencido', className: 'bg-rose-100 text-rose-700' }
+}
+
+export const ManageAnnouncementsPage = () => {
+  const navigate = useNavigate()
+  const [announcements, setAnnouncements] = useState<Announcement[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [editingId, setEditingId] = useState('')
+  const [text, setText] = useState('')
+  const [type, setType] = useState<AnnouncementType>('oferta')
+  const [customLabel, setCustomLabel] = useState('')
+  const [startsAt, setStartsAt] = useState('')
+  const [endsAt, setEndsAt] = useState('')
+  const [isActive, setIsActive] = useState(true)
+  const [linkType, setLinkType] = useState<Announcement['linkType']>('none')
+  const [linkValue, setLinkValue] = useState('')
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadData = async () => {
+      const [fetchedAnnouncements, fetchedProducts] = await Promise.all([
+        apiService.getAdminAnnouncements(),
+        apiService.getProducts(),
+      ])
+      if (!isMounted) return
+      setAnnouncements(sortAnnouncements(fetchedAnnouncements))
+      setProducts(fetchedProducts)
+      setLoading(false)
+    }
+
+    void loadData()
+
+    return () => {
+      isMounted = false
+    }
+  }, [])
+
+  const categories = useMemo(() => {
+    const categoryMap = new Map<string, string>()
+
+    products.forEach((item) => {
+      const categoryValue = item.category.trim()
+      if (!categoryValue) return
+
+      const key = categoryValue.toLowerCase()
+      if (!categoryMap.has(key)) {
+        categoryMap.set(key, categoryValue)
+      }
+    })
+
+    return Array.from(categoryMap.values()).sort((first, second) =>
+      first.localeCompare(second, 'es', { sensitivity: 'base' })
+    )
+  }, [products])
+
+  const resetForm = () => {
+    setEditingId('')
+    setText('')
+    setType('oferta')
+    setCustomLabel('')
+    setStartsAt('')
+    setEndsAt('')
+    setIsActive(true)
+    setLinkType('none')
+    setLinkValue('')
+  }
+
+  const handleEdit = (announcement: Announcement) => {
+    setEditingId(announcement.id)
+    setText(announcement.text)
+    setType(announcement.type)
+    setCustomLabel(announcement.customLabel)
+    setStartsAt(toDateInputValue(announcement.startsAt))
+    setEndsAt(toDateInputValue(announcement.endsAt))
+    setIsActive(announcement.isActive)
+    setLinkType(announcement.linkType)
+    setLinkValue(announcement.linkValue)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+
+    if (!text.trim()) {
+      window.alert('Escribe el texto del anuncio')
+      return
+    }
+
+    if (startsAt && endsAt && startsAt > endsAt) {
+      window.alert('La fecha de fin debe ser posterior a la de inicio')
+      return
+    }
+
+    if (linkType !== 'none' && !linkValue) {
+      window.alert('Selecciona el destino del enlace')
+      return
+    }
+
+    const current = announcements.find((item) => item.id === editingId)
+    const payload: AnnouncementPayload = {
+      text: text.trim(),
+      type,
+      customLabel: type === 'custom' ? customLabel.trim() : '',
+      order: current?.order ?? announcements.reduce((max, item) => Math.max(max, item.order), 0) + 1,
+      startsAt: fromDateInputValue(startsAt, 'start'),
+      endsAt: fromDateInputValue(endsAt, 'end'),
+      isActive,
+      linkType,
+      linkValue: linkType === 'none' ? '' : linkValue,
+    }
+
+    setSaving(true)
+    const saved = editingId
+      ? await apiService.updateAnnouncement(editingId, payload)
+      : await apiService.createAnnouncement(payload)
+    setSaving(false)
+
+    if (!saved) {
+      window.alert('No se pudo guardar el anuncio')
+      return
+    }
+
+    setAnnouncements((prev) =>
+      sortAnnouncements(editingId ? prev.map((item) => (item.id === editingId ? saved : item)) : [...prev, saved])
+    )
+    resetForm()
+  }
+
+  const handleToggleActive = async (announcement: Announcement) => {
+    const { id, ...payload } = announcement
+    const updated = await apiService.updateAnnouncement(id, { ...payload, isActive: !announcement.isActive })
+    if (!updated) {
+      window.alert('No se pudo actualizar el anuncio')
+      return
+    }
+
+    setAnnouncements((prev) => prev.map((item) => (item.id === id ? updated : item)))
+  }
+
+  const handleMove = async (index: number, offset: number) => {
+    const first = announcements[index]
+    const second = announcements[index + offset]
+    if (!first || !second) return
+
+    const { id: firstId, ...firstPayload } = first
+    const { id: secondId, ...secondPayload } = second
+    const firstOrder = first.order === second.order ? index + 1 : first.order
+    const secondOrder = first.order === second.order ? index + 1 + offset : second.order
+
+    const [updatedFirst, updatedSecond] = await Promise.all([
+      apiService.updateAnnouncement(firstId, { ...firstPayload, order: secondOrder }),
+      apiService.updateAnnouncement(secondId, { ...secondPayload, order: firstOrder }),
+    ])
+
+    if (!updatedFirst || !updatedSecond) {
+      window.alert('No se pudo reordenar los anuncios')
+      return
+    }
+
+    setAnnouncements((prev) =>
+      sortAnnouncements(
+        prev.map((item) => {
+          if (item.id === firstId) return updatedFirst
+          if (item.id === secondId) return updatedSecond
+          return item
+        })
+      )
+    )
+  }
+
+  const handleDelete = async (announcement: Announcement) => {
+    const confirmed = window.confirm(`¿Deseas eliminar el anuncio "${announcement.text}"?`)
+    if (!confirmed) return
+
+    const deleted = await apiService.deleteAnnouncement(announcement.id)
+    if (!deleted) {
+      window.alert('No se pudo eliminar el anuncio')
+      return
+    }
+
+    setAnnouncements((prev) => prev.filter((item) => item.id !== announcement.id))
+    if (editingId === announcement.id) resetForm()
+  }
+
+  const getLinkText = (announcement: Announcement) => {
+    if (announcement.linkType === 'product') {
+      const product = products.find((item) => item.id === announcement.linkValue)
+      return `Producto: ${product?.name ?? 'no disponible'}`
+    }
+    if (announcement.linkType === 'category') return `Categoría: ${announcement.linkValue}`
+    return 'Sin enlace'
+  }
+
+  return (
+    <div className="min-h-screen bg-linear-to-b from-primary-900 via-primary-700 to-primary-500">
+      <StoreHeader subtitle="Gestionar anuncios" />
+
+      <main className="mx-auto w-full max-w-5xl px-4 pb-10 pt-32 md:px-8">
+        <section className="rounded-3xl bg-white p-6 shadow-2xl md:p-8">
+          <div className="mb-6 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+            <h1 className="text-2xl font-bold text-gray-900 md:text-3xl">Anuncios de la tienda</h1>
+            <button
+              type="button"
+              onClick={() => navigate('/admin')}
+              className="rounded-xl border border-primary-500 px-4 py-2 text-sm font-semibold text-primary-700"
+            >
+              ← Volver
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="mb-6 space-y-4 rounded-2xl border border-primary-100 bg-primary-50/60 p-4">
+            <h2 className="text-lg font-bold text-primary-900">{editingId ? 'Editar anuncio' : 'Nuevo anuncio'}</h2>
+
+            <label className="block">
+              <span className="mb-1 block text-sm font-semibold text-gray-700">Texto</span>
+              <input
+                value={text}
+                onChange={(event) => setText(event.target.value)}
+                maxLength={140}
+                placeholder="Ej: Envíos gratis por compras mayores a $50"
+                className="w-full rounded-xl border border-gray-300 bg-white px-4 py-3 text-sm outline-none ring-primary-200 focus:ring"
+              />
+            </label>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <label className="block">
+                <span className="mb-1 block text-sm font-semibold text-gray-700">Estilo</span>
+                <select
+                  value={type}
+                  onChange={(event) => setType(event.target.value as AnnouncementType)}
+                  className="h-12 w-full rounded-xl border border-gray-300 bg-white px-4 text-sm outline-none ring-primary-200 focus:ring"
+                >
+                  {TYPE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label} ({ANNOUNCEMENT_TYPE_LABELS[option.value]})
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              {type === 'custom' ? (
+                <label className="block">
+                  <span className="mb-1 block text-sm font-semibold text-gray-700">Etiqueta personalizada</span>
+                  <input
+                    value={customLabel}
+                    onChange={(event) => setCustomLabel(event.target.value)}
+                    maxLength={20}
+                    placeholder="Ej: 🎉 ANIVERSARIO"
+                    className="h-12 w-full rounded-xl border border-gray-300 bg-white px-4 text-sm outline-none ring-primary-200 focus:ring"
+                  />
+                </label>
+              ) : null}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <label className="block">
+                <span className="mb-1 block text-sm font-semibold text-gray-700">Desde</span>
+                <input
+                  type="date"
+                  value={startsAt}
+                  onChange={(event) => setStartsAt(event.target.value)}
+                  className="h-12 w-full rounded-xl border border-gray-300 bg-white px-4 text-sm outline-none ring-primary-200 focus:ring"
+                />
+              </label>
+              <label className="block">
+                <span className="mb-1 block text-sm font-semibold text-gray-700">Hasta</span>
+                <input
+                  type="date"
+                  value={endsAt}
+                  onChange={(event) => setEndsAt(event.target.value)}
+                  className="h-12 w-full rounded-xl border border-gray-300 bg-white px-4 text-sm outline-none ring-primary-200 focus:ring"
+                />
+              </label>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <label className="block">
+                <span className="mb-1 block text-sm font-semibold text-gray-700">Enlace</span>
+                <select
+                  value={linkType}
+                  onChange={(event) => {
+                    setLinkType(event.target.value as Announcement['linkType'])
+                    setLinkValue('')
+                  }}
+                  className="h-12 w-full rounded-xl border border-gray-300 bg-white px-4 text-sm outline-none ring-primary-200 focus:ring"
+                >
+                  <option value="none">Sin enlace</option>
+                  <option value="product">Producto</option>
+                  <option value="category">Categoría</option>
+                </select>
+              </label>
+
+              {linkType === 'product' ? (
+                <label className="block">
+                  <span className="mb-1 block text-sm font-semibold text-gray-700">Producto</span>
+                  <select
+                    value={linkValue}
+                    onChange={(event) => setLinkValue(event.target.value)}
+                    className="h-12 w-full rounded-xl border border-gray-300 bg-white px-4 text-sm outline-none ring-primary-200 focus:ring"
+                  >
+                    <option value="">Selecciona producto</option>
+                    {products.map((product) => (
+                      <option key={product.id} value={product.id}>
+                        {product.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : linkType === 'category' ? (
+                <label className="block">
+                  <span className="mb-1 block text-sm font-semibold text-gray-700">Categoría</span>
+                  <select
+                    value={linkValue}
+                    onChange={(event) => setLinkValue(event.target.value)}
+                    className="h-12 w-full rounded-xl border border-gray-300 bg-white px-4 text-sm outline-none ring-primary-200 focus:ring"
+                  >
+                    <option value="">Selecciona categoría</option>
+                    {categories.map((category) => (
+                      <option key={category} value={category}>
+                        {category}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+            </div>
+
+            <label className="flex items-center gap-3 rounded-xl border border-gray-300 bg-white px-4 py-3">
+              <input type="checkbox" checked={isActive} onChange={() => setIsActive((prev) => !prev)} />
+              <span className="text-sm font-semibold text-gray-700">Anuncio activo</span>
+            </label>
+
+            <div className="flex flex-col gap-2 md:flex-row">
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 rounded-xl bg-primary-600 px-4 py-3 text-base font-bold text-white transition hover:bg-primary-700 disabled:opacity-60"
+              >
+                {saving ? 'Guardando...' : editingId ? 'Guardar cambios' : 'Crear anuncio'}
+              </button>
+              {editingId ? (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="rounded-xl border border-gray-300 px-4 py-3 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+                >
+                  Cancelar edición
+                </button>
+              ) : null}
+            </div>
+          </form>
+
+          {loading ? (
+            <div className="py-16 text-center text-gray-600">Cargando anuncios...</div>
+          ) : announcements.length === 0 ? (
+            <div className="rounded-xl border border-dashed border-gray-300 py-16 text-center">
+              <p className="text-lg font-semibold text-gray-800">Aún no hay anuncios</p>
+              <p className="mt-2 text-sm text-gray-600">Mientras tanto la tienda muestra los mensajes predeterminados</p>
+            </div>
+          ) : (
+            <ul className="space-y-3">
+              {announcements.map((announcement, index) => {
+                const status = getAnnouncementStatus(announcement)
+
+                return (
+                  <li key={announcement.id} className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+                    <div className="mb-2 flex flex-wrap items-center gap-2">
+                      <span className="rounded-full bg-slate-900 px-2.5 py-1 text-[10px] font-bold tracking-wide text-white">
+                        {getAnnouncementBadge(announcement)}
+                      </span>
+                      <span className={`rounded-full px-2.5 py-1 text-xs font-bold ${status.className}`}>{status.label}</span>
+                      <span className="text-xs text-gray-500">{getLinkText(announcement)}</span>
+                    </div>
+                    <p className="text-sm font-semibold text-gray-900">{announcement.text}</p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {announcement.startsAt ? `Desde ${new Date(announcement.startsAt).toLocaleDateString('es-EC')}` : 'Sin fecha de inicio'}
+                      {' · '}
+                      {announcement.endsAt ? `Hasta ${new Date(announcement.endsAt).toLocaleDateString('es-EC')}` : 'Sin fecha de fin'}
+                    </p>
+
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      <button
+                        type="button"
+                        aria-label="Subir anuncio"
+                        disabled={index === 0}
+                        onClick={() => void handleMove(index, -1)}
+                        className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-semibold text-gray-700 disabled:opacity-40"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        aria-label="Bajar anuncio"
+                        disabled={index === announcements.length - 1}
+                        onClick={() => void handleMove(index, 1)}
+                        className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-semibold text-gray-700 disabled:opacity-40"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleEdit(announcement)}
+                        className="rounded-lg border border-primary-500 px-3 py-1.5 text-xs font-semibold text-primary-700 hover:bg-primary-50"
+                      >
+                        ✏️ Editar
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void handleToggleActive(announcement)}
+                        className="rounded-lg border border-amber-400 px-3 py-1.5 text-xs font-semibold text-amber-800 hover:bg-amber-50"
+                      >
+                        {announcement.isActive ? '⏸️ Desactivar' : '▶️ Activar'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void handleDelete(announcement)}
+                        className="rounded-lg border border-rose-400 px-3 py-1.5 text-xs font-semibold text-rose-700 hover:bg-rose-50"
+                      >
+                        🗑️ Eliminar
+                      </button>
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </section>
+      </main>
+
+      <StoreFooter />
+    </div>
+  )
+}
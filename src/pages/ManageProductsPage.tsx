@@ -1,12 +1,14 @@
 import { useEffect, useMemo, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { usePaginationLimit } from '../hooks/usePaginationLimit'
+import { HighlightedText } from '../components/HighlightedText'
 import { StoreFooter } from '../components/StoreFooter'
 import { StoreHeader } from '../components/StoreHeader'
 import { apiService } from '../services/api'
 import type { Product } from '../types/product'
 import { buildCompactPagination } from '../utils/pagination'
-import { removeProductBannerFlag } from '../utils/bannerSettings'
+import { searchProducts } from '../utils/productSearch'
+import { getStockStatus, parseStockInput } from '../utils/productStock'
 
 const PRODUCTS_PER_PAGE = 4
 
@@ -18,6 +20,8 @@ export const ManageProductsPage = () => {
   const [searchTerm, setSearchTerm] = useState('')
   const [categoryFilter, setCategoryFilter] = useState('all')
   const [currentPage, setCurrentPage] = useState(1)
+  const [stockDrafts, setStockDrafts] = useState<Record<string, string>>({})
+  const [savingStockId, setSavingStockId] = useState('')
 
   const loadProducts = async () => {
     setLoading(true)
@@ -49,17 +53,10 @@ export const ManageProductsPage = () => {
   }, [products])
 
   const filteredProducts = useMemo(() => {
-    const normalizedSearch = searchTerm.trim().toLowerCase()
     const normalizedCategory = categoryFilter.trim().toLowerCase()
 
-    return products.filter((item) => {
-      const matchesSearch =
-        normalizedSearch.length === 0 ||
-        item.name.toLowerCase().includes(normalizedSearch)
-      const matchesCategory =
-        normalizedCategory === 'all' || item.category.trim().toLowerCase() === normalizedCategory
-
-      return matchesSearch && matchesCategory
+    return searchProducts(products, searchTerm).filter((item) => {
+      return normalizedCategory === 'all' || item.category.trim().toLowerCase() === normalizedCategory
     })
   }, [products, searchTerm, categoryFilter])
 
@@ -90,12 +87,12 @@ export const ManageProductsPage = () => {
       const updated = await apiService.updateProduct(product.id, {
         ...product,
         isEnabled: false,
+        showInBanner: false,
       })
       if (!updated) {
         window.alert('No se pudo deshabilitar el producto')
         return
       }
-      removeProductBannerFlag(product.id)
       window.alert('Producto deshabilitado correctamente')
       setProducts((prev) => prev.map((item) => (item.id === product.id ? updated : item)))
       return
@@ -116,6 +113,36 @@ export const ManageProductsPage = () => {
     setProducts((prev) => prev.map((item) => (item.id === product.id ? updated : item)))
   }
 
+  const handleSaveStock = async (product: Product) => {
+    const draft = stockDrafts[product.id]
+    if (draft === undefined) return
+
+    const stockValue = parseStockInput(draft)
+    if (stockValue === undefined) {
+      window.alert('El stock debe ser un número entero igual o mayor a 0')
+      return
+    }
+
+    setSavingStockId(product.id)
+    const updated = await apiService.updateProduct(product.id, {
+      ...product,
+      stock: stockValue,
+    })
+    setSavingStockId('')
+
+    if (!updated) {
+      window.alert('No se pudo actualizar el stock')
+      return
+    }
+
+    setProducts((prev) => prev.map((item) => (item.id === product.id ? updated : item)))
+    setStockDrafts((prev) => {
+      const next = { ...prev }
+      delete next[product.id]
+      return next
+    })
+  }
+
   return (
     <div className="min-h-screen bg-linear-to-b from-primary-900 via-primary-700 to-primary-500">
       <StoreHeader subtitle="Gestionar productos" />
@@ -180,15 +207,21 @@ export const ManageProductsPage = () => {
               <div className="grid gap-4 md:grid-cols-2">
                 {paginatedProducts.map((product) => {
                 const enabled = product.isEnabled !== false
+                const stockStatus = getStockStatus(product)
+                const stockDraft = stockDrafts[product.id]
+                const currentStockText = product.stock === null || product.stock === undefined ? '' : String(product.stock)
 
                 return (
                   <article key={product.id} className="overflow-hidden rounded-2xl border border-gray-200 bg-white shadow-sm">
                     <img src={product.image} alt={product.name} className="h-44 w-full object-cover" />
                     <div className="space-y-2 p-4">
                       <div className="flex items-center justify-between gap-2">
-                        <h2 className="line-clamp-1 text-lg font-bold text-gray-900">{product.name}</h2>
+                        <h2 className="line-clamp-1 text-lg font-bold text-gray-900">
+                          <HighlightedText text={product.name} query={searchTerm} />
+                        </h2>
                         <div className="flex items-center gap-2">
                           {product.isNew && <span className="rounded-md bg-pink-500 px-2 py-1 text-xs font-bold text-white">NUEVO</span>}
+                          {product.showInBanner && <span className="rounded-md bg-amber-100 px-2 py-1 text-xs font-bold text-amber-800">BANNER</span>}
                           <span
                             className={`rounded-md px-2 py-1 text-xs font-bold ${
                               enabled
@@ -200,9 +233,56 @@ export const ManageProductsPage = () => {
                           </span>
                         </div>
                       </div>
-                      <p className="text-sm font-semibold text-primary-700">{product.category}</p>
+                      <p className="text-sm font-semibold text-primary-700">
+                        <HighlightedText text={product.category} query={searchTerm} />
+                      </p>
                       <p className="text-xl font-bold text-gray-900">${product.price}</p>
 
+                      <div className="flex items-center gap-2">
+                        <label className="flex flex-1 items-center gap-2 text-sm font-semibold text-gray-700">
+                          Stock
+                          <input
+                            type="number"
+                            min={0}
+                            step={1}
+                            value={stockDraft ?? currentStockText}
+                            onChange={(event) =>
+                              setStockDrafts((prev) => ({ ...prev, [product.id]: event.target.value }))
+                            }
+                            placeholder="Sin control"
+                            className="h-9 w-full rounded-lg border border-gray-300 px-2 text-sm outline-none ring-primary-200 focus:ring"
+                          />
+                        </label>
+                        {stockDraft !== undefined && stockDraft !== currentStockText ? (
+                          <button
+                            type="button"
+                            disabled={savingStockId === product.id}
+                            onClick={() => void handleSaveStock(product)}
+                            className="rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-primary-700 disabled:opacity-60"
+                          >
+                            {savingStockId === product.id ? 'Guardando...' : 'Guardar'}
+                          </button>
+                        ) : (
+                          <span
+                            className={`rounded-md px-2 py-1 text-xs font-bold ${
+                              stockStatus === 'out'
+                                ? 'bg-gray-900 text-white'
+                                : stockStatus === 'low'
+                                  ? 'bg-amber-100 text-amber-800'
+                                  : 'bg-gray-100 text-gray-600'
+                            }`}
+                          >
+                            {stockStatus === 'out'
+                              ? 'AGOTADO'
+                              : stockStatus === 'low'
+                                ? 'ÚLTIMAS UNIDADES'
+                                : stockStatus === 'untracked'
+                                  ? 'SIN CONTROL'
+                                  : 'EN STOCK'}
+                          </span>
+                        )}
+                      </div>
+
                       <div className="grid grid-cols-2 gap-2 pt-2">
                         <button
                           type="button"
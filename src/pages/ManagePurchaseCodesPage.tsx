@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { StoreFooter } from '../components/StoreFooter'
+import { StoreHeader } from '../components/StoreHeader'
+import { apiService } from '../services/api'
+import type { Product } from '../types/product'
+import type { PurchaseCode } from '../types/review'
+import { sanitizePhoneNumber } from '../utils/storeSettings'
+import { getReviewInviteUrl } from '../utils/whatsapp'
+
+const inputClassName =
+  'h-12 w-full rounded-xl border border-gray-300 bg-white px-4 text-sm outline-none ring-primary-200 focus:ring'
+
+const buildInviteMessage = (purchaseCode: PurchaseCode) => {
+  const greeting = purchaseCode.customerName ? `Hola ${purchaseCode.customerName}!` : 'Hola!'
+  return `${greeting} Gracias por tu compra de ${purchaseCode.productName}. Cuéntanos qué te pareció: ${getReviewInviteUrl(
+    purchaseCode.productId,
+    purchaseCode.code
+  )} (código ${purchaseCode.code})`
+}
+
+export const ManagePurchaseCodesPage = () => {
+  const navigate = useNavigate()
+  const [purchaseCodes, setPurchaseCodes] = useState<PurchaseCode[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [productId, setProductId] = useState('')
+  const [customerName, setCustomerName] = useState('')
+  const [customerPhone, setCustomerPhone] = useState('')
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadData = async () => {
+      const [fetchedCodes, fetchedProducts] = await Promise.all([apiService.getPurchaseCodes(), apiService.getProducts()])
+      if (!isMounted) return
+      setPurchaseCodes(fetchedCodes)
+      setProducts(fetchedProducts)
+      setLoading(false)
+    }
+
+    void loadData()
+
+    return () => {
+      isMounted = false
+    }
+  }, [])
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+
+    const product = products.find((item) => item.id === productId)
+    if (!product) {
+      window.alert('Selecciona el producto vendido')
+      return
+    }
+
+    const phone = sanitizePhoneNumber(customerPhone)
+    if (phone && phone.length < 10) {
+      window.alert('Ingresa el WhatsApp del cliente con código de país (Ej: 593991234567)')
+      return
+    }
+
+    const inviteWindow = phone ? window.open('', '_blank') : null
+    if (inviteWindow) inviteWindow.opener = null
+
+    setSaving(true)
+    const created = await apiService.createPurchaseCode({
+      productId: product.id,
+      productName: product.name,
+      customerName: customerName.trim(),
+    })
+    setSaving(false)
+
+    if (!created) {
+      inviteWindow?.close()
+      window.alert('No se pudo registrar la venta')
+      return
+    }
+
+    setPurchaseCodes((prev) => [created, ...prev])
+    setProductId('')
+    setCustomerName('')
+    setCustomerPhone('')
+
+    if (inviteWindow) {
+      inviteWindow.location.href = `https://wa.me/${phone}?text=${encodeURIComponent(buildInviteMessage(created))}`
+    }
+  }
+
+  const handleCopy = async (purchaseCode: PurchaseCode) => {
+    try {
+      await navigator.clipboard.writeText(buildInviteMessage(purchaseCode))
+      window.alert('Invitación copiada al portapapeles')
+    } catch {
+      window.prompt('Copia la invitación:', buildInviteMessage(purchaseCode))
+    }
+  }
+
+  const handleDelete = async (purchaseCode: PurchaseCode) => {
+    const confirmed = window.confirm(`¿Deseas anular el código ${purchaseCode.code}?`)
+    if (!confirmed) return
+
+    const deleted = await apiService.deletePurchaseCode(purchaseCode.code)
+    if (!deleted) {
+      window.alert('No se pudo anular el código')
+      return
+    }
+
+    setPurchaseCodes((prev) => prev.filter((item) => item.code !== purchaseCode.code))
+  }
+
+  return (
+    <div className="min-h-screen bg-linear-to-b from-primary-900 via-primary-700 to-primary-500">
+      <StoreHeader subtitle="Ventas y reseñas verificadas" />
+
+      <main className="mx-auto w-full max-w-5xl px-4 pb-10 pt-32 md:px-8">
+        <section className="rounded-3xl bg-white p-6 shadow-2xl md:p-8">
+          <div className="mb-6 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+            <h1 className="text-2xl font-bold text-gray-900 md:text-3xl">Ventas y códigos de reseña</h1>
+            <button
+              type="button"
+              onClick={() => navigate('/admin')}
+              className="rounded-xl border border-primary-500 px-4 py-2 text-sm font-semibold text-primary-700"
+            >
+              ← Volver
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="mb-6 space-y-4 rounded-2xl border border-primary-100 bg-primary-50/60 p-4">
+            <div>
+              <h2 className="text-lg font-bold text-primary-900">Registrar venta</h2>
+              <p className="text-xs text-gray-600">
+                Se genera un código de un solo uso para que el cliente publique una reseña con la insignia de compra
+                verificada.
+              </p>
+            </div>
+
+            <label className="block">
+              <span className="mb-1 block text-sm font-semibold text-gray-700">Producto vendido</span>
+              <select value={productId} onChange={(event) => setProductId(event.target.value)} className={inputClassName}>
+                <option value="">Selecciona producto</option>
+                {products.map((product) => (
+                  <option key={product.id} value={product.id}>
+                    {product.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <label className="block">
+                <span className="mb-1 block text-sm font-semibold text-gray-700">Cliente (opcional)</span>
+                <input
+                  value={customerName}
+                  onChange={(event) => setCustomerName(event.target.value)}
+                  placeholder="Ej: María López"
+                  className={inputClassName}
+                />
+              </label>
+              <label className="block">
+                <span className="mb-1 block text-sm font-semibold text-gray-700">WhatsApp del cliente (opcional)</span>
+                <input
+                  value={customerPhone}
+                  onChange={(event) => setCustomerPhone(event.target.value)}
+                  placeholder="593991234567"
+                  className={inputClassName}
+                />
+              </label>
+            </div>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full rounded-xl bg-primary-600 px-4 py-3 text-base font-bold text-white transition hover:bg-primary-700 disabled:opacity-60"
+            >
+              {saving ? 'Registrando...' : customerPhone.trim() ? 'Registrar y enviar invitación' : 'Registrar venta'}
+            </button>
+          </form>
+
+          {loading ? (
+            <div className="py-16 text-center text-gray-600">Cargando códigos...</div>
+          ) : purchaseCodes.length === 0 ? (
+            <div className="rounded-xl border border-dashed border-gray-300 py-16 text-center">
+              <p className="text-lg font-semibold text-gray-800">Aún no hay ventas registradas</p>
+            </div>
+          ) : (
+            <ul className="space-y-3">
+              {purchaseCodes.map((purchaseCode) => (
+                <li key={purchaseCode.code} className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+                  <div className="mb-2 flex flex-wrap items-center gap-2">
+                    <span className="rounded-full bg-slate-900 px-2.5 py-1 font-mono text-xs font-bold tracking-wide text-white">
+                      {purchaseCode.code}
+                    </span>
+                    <span
+                      className={`rounded-full px-2.5 py-1 text-xs font-bold ${
+                        purchaseCode.usedAt ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-800'
+                      }`}
+                    >
+                      {purchaseCode.usedAt ? 'Reseña recibida' : 'Pendiente de reseña'}
+                    </span>
+                  </div>
+                  <p className="text-sm font-semibold text-gray-900">{purchaseCode.productName}</p>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {purchaseCode.customerName || 'Cliente sin nombre'}
+                    {purchaseCode.createdAt && ` · ${new Date(purchaseCode.createdAt).toLocaleDateString('es-EC')}`}
+                  </p>
+
+                  {!purchaseCode.usedAt && (
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      <button
+                        type="button"
+                        onClick={() => void handleCopy(purchaseCode)}
+                        className="rounded-lg border border-primary-500 px-3 py-1.5 text-xs font-semibold text-primary-700 hover:bg-primary-50"
+                      >
+                        Copiar invitación
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void handleDelete(purchaseCode)}
+                        className="rounded-lg border border-rose-400 px-3 py-1.5 text-xs font-semibold text-rose-700 hover:bg-rose-50"
+                      >
+                        Anular
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+
+      <StoreFooter />
+    </div>
+  )
+}
@@ -1,21 +1,85 @@
-import { useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { usePaginationLimit } from '../hooks/usePaginationLimit'
+import { useStoreSettings } from '../hooks/useStoreSettings'
+import { ImageLightbox } from '../components/ImageLightbox'
+import { ReviewRiskBadges } from '../components/ReviewRiskBadges'
 import { StoreFooter } from '../components/StoreFooter'
 import { StoreHeader } from '../components/StoreHeader'
 import { apiService } from '../services/api'
-import type { Review } from '../types/review'
+import type { AdminReview, Review, ReviewScreening } from '../types/review'
+import { fromDateInputValue } from '../utils/dateInput'
 import { buildCompactPagination } from '../utils/pagination'
+import { normalizeSearchText } from '../utils/productSearch'
+import { mergeScreenings, screenReview } from '../utils/reviewScreening'
 
 const REVIEWS_PER_PAGE = 5
 
+interface ReviewFilters {
+  status: 'all' | Review['status']
+  search: string
+  productId: string
+  rating: number
+  dateFrom: string
+  dateTo: string
+}
+
+const DEFAULT_FILTERS: ReviewFilters = {
+  status: 'all',
+  search: '',
+  productId: '',
+  rating: 0,
+  dateFrom: '',
+  dateTo: '',
+}
+
+const filterReviews = (reviews: AdminReview[], filters: ReviewFilters) => {
+  const search = normalizeSearchText(filters.search)
+  const fromDate = fromDateInputValue(filters.dateFrom, 'start')
+  const toDate = fromDateInputValue(filters.dateTo, 'end')
+
+  return reviews.filter((review) => {
+    if (filters.status !== 'all' && review.status !== filters.status) return false
+    if (filters.productId && review.productId !== filters.productId) return false
+    if (filters.rating && review.rating !== filters.rating) return false
+
+    const createdAt = new Date(review.createdAt).getTime()
+    if (fromDate && !(createdAt >= new Date(fromDate).getTime())) return false
+    if (toDate && !(createdAt <= new Date(toDate).getTime())) return false
+
+    if (!search) return true
+    return normalizeSearchText(`${review.customerName} ${review.productName} ${review.comment}`).includes(search)
+  })
+}
+
+const screenReviews = (reviews: AdminReview[], blockedWords: string[]) => {
+  return new Map<string, ReviewScreening>(
+    reviews.map((review) => [
+      review.id,
+      mergeScreenings(review.screening, screenReview(review, { blockedWords, previousReviews: reviews })),
+    ])
+  )
+}
+
+const isTypingTarget = (target: EventTarget | null) => {
+  return target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+}
+
 export const ManageReviewsPage = () => {
   const paginationLimit = usePaginationLimit()
   const navigate = useNavigate()
-  const [reviews, setReviews] = useState<Review[]>([])
+  const [reviews, setReviews] = useState<AdminReview[]>([])
   const [loading, setLoading] = useState(true)
-  const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'approved' | 'rejected'>('all')
+  const [filters, setFilters] = useState<ReviewFilters>(DEFAULT_FILTERS)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [focusedReviewId, setFocusedReviewId] = useState('')
+  const [bulkUpdating, setBulkUpdating] = useState(false)
   const [currentPage, setCurrentPage] = useState(1)
+  const [replyingReviewId, setReplyingReviewId] = useState('')
+  const [replyDraft, setReplyDraft] = useState('')
+  const [savingReply, setSavingReply] = useState(false)
+  const [lightbox, setLightbox] = useState<{ images: string[]; index: number } | null>(null)
+  const { reviewModeration } = useStoreSettings()
 
   useEffect(() => {
     let isMounted = true
@@ -34,10 +98,21 @@ export const ManageReviewsPage = () => {
     }
   }, [])
 
-  const filteredReviews = useMemo(() => {
-    if (statusFilter === 'all') return reviews
-    return reviews.filter((item) => item.status === statusFilter)
-  }, [reviews, statusFilter])
+  const filteredReviews = useMemo(() => filterReviews(reviews, filters), [filters, reviews])
+
+  const reviewScreenings = useMemo(() => {
+    return screenReviews(reviews, reviewModeration.blockedWords)
+  }, [reviewModeration.blockedWords, reviews])
+
+  const reviewedProducts = useMemo(() => {
+    const map = new Map<string, string>()
+    reviews.forEach((review) => {
+      if (review.productId && !map.has(review.productId)) map.set(review.productId, review.productName)
+    })
+    return Array.from(map.entries()).sort((first, second) =>
+      first[1].localeCompare(second[1], 'es', { sensitivity: 'base' })
+    )
+  }, [reviews])
 
   const totalPages = useMemo(() => {
     return Math.max(1, Math.ceil(filteredReviews.length / REVIEWS_PER_PAGE))
@@ -56,14 +131,188 @@ export const ManageReviewsPage = () => {
     return buildCompactPagination(safeCurrentPage, totalPages, paginationLimit)
   }, [paginationLimit, safeCurrentPage, totalPages])
 
-  const handleUpdateStatus = async (review: Review, status: Review['status']) => {
+  const visibleSelectedIds = useMemo(() => {
+    const visibleIds = new Set(filteredReviews.map((review) => review.id))
+    return selectedIds.filter((id) => visibleIds.has(id))
+  }, [filteredReviews, selectedIds])
+
+  const isPageSelected = paginatedReviews.length > 0 && paginatedReviews.every((review) => selectedIds.includes(review.id))
+
+  const updateFilter = <Key extends keyof ReviewFilters>(key: Key, value: ReviewFilters[Key]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }))
+    setCurrentPage(1)
+  }
+
+  const focusReview = (list: AdminReview[], index: number) => {
+    const review = list[index]
+    if (!review) return
+
+    setFocusedReviewId(review.id)
+    setCurrentPage(Math.floor(index / REVIEWS_PER_PAGE) + 1)
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]))
+  }
+
+  const togglePageSelection = () => {
+    const pageIds = paginatedReviews.map((review) => review.id)
+    setSelectedIds((prev) =>
+      isPageSelected ? prev.filter((id) => !pageIds.includes(id)) : Array.from(new Set([...prev, ...pageIds]))
+    )
+  }
+
+  const handleUpdateStatus = async (review: AdminReview, status: Review['status']) => {
     const updated = await apiService.updateReviewStatus(review.id, status)
     if (!updated) {
       window.alert('No se pudo actualizar el comentario')
       return
     }
 
-    window.alert('Comentario actualizado correctamente')
+    const nextReviews = reviews.map((item) => (item.id === review.id ? updated : item))
+    setReviews(nextReviews)
+
+    if (focusedReviewId !== review.id) return
+
+    const previousIndex = filteredReviews.findIndex((item) => item.id === review.id)
+    const nextFiltered = filterReviews(nextReviews, filters)
+    const stillVisibleIndex = nextFiltered.findIndex((item) => item.id === review.id)
+    const nextIndex = stillVisibleIndex >= 0 ? stillVisibleIndex + 1 : previousIndex
+    focusReview(nextFiltered, Math.min(nextIndex, nextFiltered.length - 1))
+  }
+
+  const handleBulkStatus = async (status: Review['status']) => {
+    if (visibleSelectedIds.length === 0) return
+
+    setBulkUpdating(true)
+    const updatedReviews = await apiService.updateReviewsStatus(visibleSelectedIds, status)
+    setBulkUpdating(false)
+
+    if (!updatedReviews) {
+      window.alert('No se pudieron actualizar los comentarios seleccionados')
+      return
+    }
+
+    const updatedById = new Map(updatedReviews.map((review) => [review.id, review]))
+    setReviews((prev) => prev.map((item) => updatedById.get(item.id) ?? item))
+    setSelectedIds([])
+  }
+
+  const handleBulkDelete = async () => {
+    if (visibleSelectedIds.length === 0) return
+
+    const confirmed = window.confirm(`¿Deseas eliminar ${visibleSelectedIds.length} comentario(s)? Esta acción no se puede deshacer.`)
+    if (!confirmed) return
+
+    setBulkUpdating(true)
+    const deleted = await apiService.deleteReviews(visibleSelectedIds)
+    setBulkUpdating(false)
+
+    if (!deleted) {
+      window.alert('No se pudieron eliminar los comentarios seleccionados')
+      return
+    }
+
+    setReviews((prev) => prev.filter((item) => !visibleSelectedIds.includes(item.id)))
+    setSelectedIds([])
+  }
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey || isTypingTarget(event.target)) return
+
+      const key = event.key.toLowerCase()
+      const focusedIndex = filteredReviews.findIndex((item) => item.id === focusedReviewId)
+      const focusedReview = filteredReviews[focusedIndex]
+
+      if (key === 'j' || key === 'k') {
+        event.preventDefault()
+        const nextIndex = focusedIndex < 0 ? 0 : focusedIndex + (key === 'j' ? 1 : -1)
+        focusReview(filteredReviews, Math.min(filteredReviews.length - 1, Math.max(0, nextIndex)))
+        return
+      }
+
+      if (!focusedReview) return
+
+      if (key === 'a' || key === 'r') {
+        event.preventDefault()
+        void handleUpdateStatus(focusedReview, key === 'a' ? 'approved' : 'rejected')
+      } else if (key === 'x') {
+        event.preventDefault()
+        toggleSelected(focusedReview.id)
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  })
+
+  useEffect(() => {
+    if (!focusedReviewId) return
+    document.getElementById(`review-${focusedReviewId}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' })
+  }, [focusedReviewId, safeCurrentPage])
+
+  const closeLightbox = useCallback(() => setLightbox(null), [])
+  const changeLightboxIndex = useCallback(
+    (index: number) => setLightbox((prev) => (prev ? { ...prev, index } : prev)),
+    []
+  )
+
+  const handleRemoveImage = async (review: AdminReview, image: string) => {
+    const confirmed = window.confirm('¿Deseas quitar esta foto de la reseña?')
+    if (!confirmed) return
+
+    const updated = await apiService.updateReviewImages(
+      review.id,
+      review.images.filter((item) => item !== image)
+    )
+    if (!updated) {
+      window.alert('No se pudo quitar la foto')
+      return
+    }
+
+    setReviews((prev) => prev.map((item) => (item.id === review.id ? updated : item)))
+  }
+
+  const openReplyEditor = (review: AdminReview) => {
+    setReplyingReviewId(review.id)
+    setReplyDraft(review.reply?.text ?? '')
+  }
+
+  const closeReplyEditor = () => {
+    setReplyingReviewId('')
+    setReplyDraft('')
+  }
+
+  const handleSaveReply = async (review: AdminReview) => {
+    if (!replyDraft.trim()) {
+      window.alert('Escribe una respuesta')
+      return
+    }
+
+    setSavingReply(true)
+    const updated = await apiService.saveReviewReply(review.id, replyDraft.trim())
+    setSavingReply(false)
+
+    if (!updated) {
+      window.alert('No se pudo guardar la respuesta')
+      return
+    }
+
+    setReviews((prev) => prev.map((item) => (item.id === review.id ? updated : item)))
+    closeReplyEditor()
+  }
+
+  const handleDeleteReply = async (review: AdminReview) => {
+    const confirmed = window.confirm('¿Deseas eliminar la respuesta de la tienda?')
+    if (!confirmed) return
+
+    const updated = await apiService.deleteReviewReply(review.id)
+    if (!updated) {
+      window.alert('No se pudo eliminar la respuesta')
+      return
+    }
+
     setReviews((prev) => prev.map((item) => (item.id === review.id ? updated : item)))
   }
 
@@ -75,13 +324,22 @@ export const ManageReviewsPage = () => {
         <section className="rounded-3xl bg-white p-6 shadow-2xl md:p-8">
           <div className="mb-6 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
             <h1 className="text-2xl font-bold text-gray-900 md:text-3xl">Moderación de comentarios</h1>
-            <button
-              type="button"
-              onClick={() => navigate('/admin')}
-              className="rounded-xl border border-primary-500 px-4 py-2 text-sm font-semibold text-primary-700"
-            >
-              ← Volver
-            </button>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => navigate('/admin/comentarios/analitica')}
+                className="rounded-xl bg-primary-600 px-4 py-2 text-sm font-semibold text-white hover:bg-primary-700"
+              >
+                📊 Analítica
+              </button>
+              <button
+                type="button"
+                onClick={() => navigate('/admin')}
+                className="rounded-xl border border-primary-500 px-4 py-2 text-sm font-semibold text-primary-700"
+              >
+                ← Volver
+              </button>
+            </div>
           </div>
 
           <div className="mb-5 flex flex-wrap gap-2">
@@ -94,12 +352,9 @@ export const ManageReviewsPage = () => {
               <button
                 key={item.key}
                 type="button"
-                onClick={() => {
-                  setStatusFilter(item.key as typeof statusFilter)
-                  setCurrentPage(1)
-                }}
+                onClick={() => updateFilter('status', item.key as ReviewFilters['status'])}
                 className={`rounded-full border px-3 py-1.5 text-sm font-semibold transition ${
-                  statusFilter === item.key
+                  filters.status === item.key
                     ? 'border-primary-600 bg-primary-600 text-white'
                     : 'border-gray-300 bg-white text-gray-700 hover:border-primary-500 hover:text-primary-600'
                 }`}
@@ -109,6 +364,112 @@ export const ManageReviewsPage = () => {
             ))}
           </div>
 
+          <div className="mb-5 grid gap-3 md:grid-cols-2 lg:grid-cols-5">
+            <input
+              type="search"
+              value={filters.search}
+              onChange={(event) => updateFilter('search', event.target.value)}
+              placeholder="Buscar por cliente, producto o comentario"
+              className="h-11 rounded-xl border border-gray-300 px-3 text-sm outline-none ring-primary-200 focus:ring lg:col-span-2"
+            />
+            <select
+              value={filters.productId}
+              onChange={(event) => updateFilter('productId', event.target.value)}
+              className="h-11 rounded-xl border border-gray-300 bg-white px-3 text-sm outline-none ring-primary-200 focus:ring"
+            >
+              <option value="">Todos los productos</option>
+              {reviewedProducts.map(([id, name]) => (
+                <option key={id} value={id}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.rating}
+              onChange={(event) => updateFilter('rating', Number(event.target.value))}
+              className="h-11 rounded-xl border border-gray-300 bg-white px-3 text-sm outline-none ring-primary-200 focus:ring"
+            >
+              <option value={0}>Todas las calificaciones</option>
+              {[5, 4, 3, 2, 1].map((rating) => (
+                <option key={rating} value={rating}>
+                  {rating} {rating === 1 ? 'estrella' : 'estrellas'}
+                </option>
+              ))}
+            </select>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                aria-label="Desde"
+                value={filters.dateFrom}
+                max={filters.dateTo || undefined}
+                onChange={(event) => updateFilter('dateFrom', event.target.value)}
+                className="h-11 min-w-0 flex-1 rounded-xl border border-gray-300 px-2 text-sm outline-none ring-primary-200 focus:ring"
+              />
+              <input
+                type="date"
+                aria-label="Hasta"
+                value={filters.dateTo}
+                min={filters.dateFrom || undefined}
+                onChange={(event) => updateFilter('dateTo', event.target.value)}
+                className="h-11 min-w-0 flex-1 rounded-xl border border-gray-300 px-2 text-sm outline-none ring-primary-200 focus:ring"
+              />
+            </div>
+          </div>
+
+          <div className="mb-5 flex flex-col gap-3 rounded-2xl bg-primary-50 px-4 py-3 md:flex-row md:items-center md:justify-between">
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+              <input
+                type="checkbox"
+                checked={isPageSelected}
+                disabled={paginatedReviews.length === 0}
+                onChange={togglePageSelection}
+              />
+              {visibleSelectedIds.length > 0
+                ? `${visibleSelectedIds.length} seleccionado(s)`
+                : `Seleccionar página (${filteredReviews.length} resultado(s))`}
+            </label>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                disabled={bulkUpdating || visibleSelectedIds.length === 0}
+                onClick={() => void handleBulkStatus('approved')}
+                className="rounded-lg bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-emerald-700 disabled:opacity-50"
+              >
+                Aprobar
+              </button>
+              <button
+                type="button"
+                disabled={bulkUpdating || visibleSelectedIds.length === 0}
+                onClick={() => void handleBulkStatus('rejected')}
+                className="rounded-lg bg-rose-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-rose-700 disabled:opacity-50"
+              >
+                Rechazar
+              </button>
+              <button
+                type="button"
+                disabled={bulkUpdating || visibleSelectedIds.length === 0}
+                onClick={() => void handleBulkDelete()}
+                className="rounded-lg border border-rose-400 px-3 py-1.5 text-xs font-semibold text-rose-700 hover:bg-rose-50 disabled:opacity-50"
+              >
+                Eliminar
+              </button>
+              <button
+                type="button"
+                disabled={selectedIds.length === 0}
+                onClick={() => setSelectedIds([])}
+                className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-semibold text-gray-700 hover:bg-white disabled:opacity-50"
+              >
+                Limpiar selección
+              </button>
+            </div>
+          </div>
+
+          <p className="mb-4 text-xs text-gray-500">
+            Atajos: <kbd className="font-semibold">J</kbd>/<kbd className="font-semibold">K</kbd> moverse ·{' '}
+            <kbd className="font-semibold">A</kbd> aprobar · <kbd className="font-semibold">R</kbd> rechazar ·{' '}
+            <kbd className="font-semibold">X</kbd> seleccionar
+          </p>
+
           {loading ? (
             <div className="py-16 text-center text-gray-600">Cargando comentarios...</div>
           ) : filteredReviews.length === 0 ? (
@@ -119,12 +480,33 @@ export const ManageReviewsPage = () => {
             <>
               <div className="space-y-3">
                 {paginatedReviews.map((review) => (
-                <article key={review.id} className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+                <article
+                  key={review.id}
+                  id={`review-${review.id}`}
+                  onClick={() => setFocusedReviewId(review.id)}
+                  className={`rounded-2xl border bg-gray-50 p-4 ${
+                    focusedReviewId === review.id ? 'border-primary-500 ring-2 ring-primary-300' : 'border-gray-200'
+                  }`}
+                >
                   <div className="mb-2 flex flex-col gap-1 md:flex-row md:items-center md:justify-between">
-                    <div>
-                      <p className="text-sm font-bold text-gray-900">{review.customerName}</p>
-                      <p className="text-xs font-semibold text-primary-700">{review.category} · {review.productName}</p>
-                    </div>
+                    <label className="flex items-start gap-3">
+                      <input
+                        type="checkbox"
+                        aria-label={`Seleccionar comentario de ${review.customerName}`}
+                        checked={selectedIds.includes(review.id)}
+                        onChange={() => toggleSelected(review.id)}
+                        className="mt-1"
+                      />
+                      <span>
+                        <span className="block text-sm font-bold text-gray-900">{review.customerName}</span>
+                        <span className="block text-xs font-semibold text-primary-700">{review.category} · {review.productName}</span>
+                        {review.verifiedPurchase && (
+                          <span className="mt-1 inline-flex rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-bold text-emerald-700">
+                            ✔ Compra verificada
+                          </span>
+                        )}
+                      </span>
+                    </label>
                     <span
                       className={`w-fit rounded-full px-3 py-1 text-xs font-bold ${
                         review.status === 'approved'
@@ -139,8 +521,88 @@ export const ManageReviewsPage = () => {
                   </div>
 
                   <p className="mb-2 text-xs text-gray-500">⭐ {review.rating}/5 · {review.recommend ? '❤️ Recomienda' : '🤍 No recomienda'}</p>
+                  <ReviewRiskBadges
+                    screening={reviewScreenings.get(review.id)}
+                    autoRejectScore={reviewModeration.autoRejectScore}
+                  />
                   <p className="text-sm text-gray-700">“{review.comment}”</p>
 
+                  {review.images.length > 0 && (
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {review.images.map((image, index) => (
+                        <div key={image} className="relative h-20 w-20 overflow-hidden rounded-lg border border-gray-200">
+                          <button
+                            type="button"
+                            aria-label={`Ver foto ${index + 1}`}
+                            onClick={() => setLightbox({ images: review.images, index })}
+                            className="h-full w-full"
+                          >
+                            <img src={image} alt="" className="h-full w-full object-cover" />
+                          </button>
+                          <button
+                            type="button"
+                            aria-label="Quitar foto"
+                            onClick={() => void handleRemoveImage(review, image)}
+                            className="absolute right-1 top-1 flex h-6 w-6 items-center justify-center rounded-full bg-rose-600 text-xs font-bold text-white"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {replyingReviewId === review.id ? (
+                    <div className="mt-3 space-y-2 rounded-xl border border-primary-200 bg-white p-3">
+                      <textarea
+                        value={replyDraft}
+                        onChange={(event) => setReplyDraft(event.target.value)}
+                        rows={3}
+                        maxLength={600}
+                        placeholder="Escribe la respuesta pública de la tienda"
+                        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm outline-none ring-primary-200 focus:ring"
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          type="button"
+                          disabled={savingReply}
+                          onClick={() => void handleSaveReply(review)}
+                          className="rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-primary-700 disabled:opacity-60"
+                        >
+                          {savingReply ? 'Guardando...' : 'Publicar respuesta'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={closeReplyEditor}
+                          className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-semibold text-gray-700 hover:bg-gray-50"
+                        >
+                          Cancelar
+                        </button>
+                      </div>
+                    </div>
+                  ) : review.reply ? (
+                    <div className="mt-3 rounded-xl border-l-4 border-primary-400 bg-white px-3 py-2">
+                      <p className="text-xs font-bold text-primary-700">Respuesta de la tienda</p>
+                      <p className="text-sm text-gray-700">{review.reply.text}</p>
+                      <div className="mt-2 flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() => openReplyEditor(review)}
+                          className="text-xs font-semibold text-primary-700 hover:underline"
+                        >
+                          Editar
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void handleDeleteReply(review)}
+                          className="text-xs font-semibold text-rose-600 hover:underline"
+                        >
+                          Eliminar
+                        </button>
+                      </div>
+                    </div>
+                  ) : null}
+
                   <div className="mt-3 flex flex-wrap gap-2">
                     <button
                       type="button"
@@ -163,6 +625,15 @@ export const ManageReviewsPage = () => {
                     >
                       ⏳ Pendiente
                     </button>
+                    {!review.reply && replyingReviewId !== review.id && (
+                      <button
+                        type="button"
+                        onClick={() => openReplyEditor(review)}
+                        className="rounded-lg border border-primary-400 px-3 py-1.5 text-xs font-semibold text-primary-700 hover:bg-primary-50"
+                      >
+                        💬 Responder
+                      </button>
+                    )}
                   </div>
                 </article>
                 ))}
@@ -222,6 +693,16 @@ export const ManageReviewsPage = () => {
         </section>
       </main>
 
+      {lightbox && (
+        <ImageLightbox
+          images={lightbox.images}
+          index={lightbox.index}
+          alt="Foto de reseña"
+          onClose={closeLightbox}
+          onIndexChange={changeLightboxIndex}
+        />
+      )}
+
       <StoreFooter />
     </div>
   )
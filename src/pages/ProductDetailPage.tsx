@@ -1,10 +1,25 @@
-import { useEffect, useState } from 'react'
-import { useNavigate, useParams } from 'react-router-dom'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import { CustomerReviewsSection } from '../components/CustomerReviewsSection'
+import { ProductGallery } from '../components/ProductGallery'
 import { StoreFooter } from '../components/StoreFooter'
 import { StoreHeader } from '../components/StoreHeader'
 import { apiService } from '../services/api'
 import type { Product } from '../types/product'
-import { openWhatsApp } from '../utils/whatsapp'
+import type { Review } from '../types/review'
+import { addCartItem, MAX_ITEM_QUANTITY } from '../utils/cart'
+import { getDiscountPercent, getEffectivePrice, isSaleActive } from '../utils/productPricing'
+import { getMaxOrderQuantity, getStockStatus } from '../utils/productStock'
+import {
+  findProductVariant,
+  formatVariantLabel,
+  getVariantPrice,
+  isVariantOptionAvailable,
+} from '../utils/productVariants'
+import type { VariantSelection } from '../utils/productVariants'
+import { getRatingDistribution, getReviewSummary } from '../utils/reviews'
+import { getOrCreateVisitorId } from '../utils/visitor'
+import { buildProductContactMessage, formatPrice, openWhatsApp } from '../utils/whatsapp'
 
 const features = [
   'Calidad premium garantizada',
@@ -15,9 +30,14 @@ const features = [
 
 export const ProductDetailPage = () => {
   const { id } = useParams()
+  const [searchParams] = useSearchParams()
   const navigate = useNavigate()
   const [product, setProduct] = useState<Product | null>(null)
   const [loading, setLoading] = useState(true)
+  const [quantity, setQuantity] = useState(1)
+  const [variantSelection, setVariantSelection] = useState<VariantSelection>({})
+  const [productReviews, setProductReviews] = useState<Review[]>([])
+  const [visitorId] = useState(getOrCreateVisitorId)
 
   useEffect(() => {
     const loadProduct = async () => {
@@ -35,10 +55,100 @@ export const ProductDetailPage = () => {
       }
 
       setProduct(fetchedProduct)
+      setVariantSelection({})
       setLoading(false)
+      void apiService.registerProductView(fetchedProduct.id, visitorId)
     }
     void loadProduct()
-  }, [id])
+  }, [id, visitorId])
+
+  const loadProductReviews = useCallback(async () => {
+    if (!id) return
+
+    const response = await apiService.getPublicReviews(visitorId)
+    setProductReviews(response.reviews.filter((review) => review.productId === id))
+  }, [id, visitorId])
+
+  useEffect(() => {
+    let isMounted = true
+
+    const fetchReviews = async () => {
+      if (!id) return
+      const response = await apiService.getPublicReviews(visitorId)
+      if (!isMounted) return
+      setProductReviews(response.reviews.filter((review) => review.productId === id))
+    }
+
+    void fetchReviews()
+
+    return () => {
+      isMounted = false
+    }
+  }, [id, visitorId])
+
+  const reviewSummary = useMemo(() => getReviewSummary(productReviews), [productReviews])
+  const reviewLikes = useMemo(() => productReviews.reduce((sum, review) => sum + review.likeCount, 0), [productReviews])
+
+  const variantGroups = product?.variantGroups ?? []
+  const selectedVariant = product ? findProductVariant(product, variantSelection) : null
+  const regularPrice = product ? getVariantPrice(product, selectedVariant) : 0
+  const displayPrice = product ? getEffectivePrice(product, regularPrice) : 0
+  const discountPercent = product ? getDiscountPercent(product) : 0
+  const stockStatus = product ? getStockStatus(product) : 'untracked'
+  const isSoldOut = stockStatus === 'out'
+  const maxQuantity = product ? getMaxOrderQuantity(product, MAX_ITEM_QUANTITY) : MAX_ITEM_QUANTITY
+
+  const getVariantSelectionError = () => {
+    if (variantGroups.length === 0) return ''
+
+    const missingGroup = variantGroups.find((group) => !variantSelection[group.name])
+    if (missingGroup) return `Selecciona ${missingGroup.name.toLowerCase()} antes de continuar`
+    if (!selectedVariant || !selectedVariant.isAvailable) return 'La combinación seleccionada no está disponible'
+    return ''
+  }
+
+  const handleContact = () => {
+    if (!product || isSoldOut) return
+
+    const selectionError = getVariantSelectionError()
+    if (selectionError) {
+      window.alert(selectionError)
+      return
+    }
+
+    openWhatsApp(
+      buildProductContactMessage('detailContact', product, {
+        price: displayPrice,
+        quantity,
+        variantLabel: selectedVariant ? formatVariantLabel(variantGroups, selectedVariant.options) : '',
+      }),
+      product.category
+    )
+  }
+
+  const handleAddToCart = () => {
+    if (!product || isSoldOut) return
+
+    const selectionError = getVariantSelectionError()
+    if (selectionError) {
+      window.alert(selectionError)
+      return
+    }
+
+    const addedQuantity = addCartItem(product, quantity, selectedVariant)
+    setQuantity(1)
+
+    if (addedQuantity === 0) {
+      window.alert('Ya tienes en el carrito todas las unidades disponibles de este producto')
+      return
+    }
+
+    window.alert(
+      addedQuantity < quantity
+        ? `Solo se agregaron ${addedQuantity} unidad(es) al carrito por el stock disponible`
+        : 'Producto agregado al carrito'
+    )
+  }
 
   return (
     <div className="min-h-screen bg-linear-to-b from-primary-900 via-primary-700 to-primary-500">
@@ -61,8 +171,18 @@ export const ProductDetailPage = () => {
             </div>
           ) : (
             <>
-              <div className="relative h-72 w-full md:h-96">
-                <img src={product.image} alt={product.name} className="h-full w-full object-cover" />
+              <div className="relative h-80 w-full md:h-[28rem]">
+                <ProductGallery
+                  key={product.id}
+                  images={product.images?.length ? product.images : [product.image]}
+                  alt={product.name}
+                  dimmed={isSoldOut}
+                />
+                {isSoldOut && (
+                  <span className="absolute left-4 top-16 rounded-full bg-gray-900 px-4 py-1 text-xs font-bold text-white">
+                    AGOTADO
+                  </span>
+                )}
                 {product.isNew && (
                   <span className="absolute right-4 top-4 rounded-full bg-pink-500 px-4 py-1 text-xs font-bold text-white">
                     NUEVO
@@ -83,6 +203,17 @@ export const ProductDetailPage = () => {
                     {product.category}
                   </span>
                   <h1 className="mt-3 text-3xl font-bold text-gray-900">{product.name}</h1>
+                  <a href="#opiniones" className="mt-2 inline-flex items-center gap-2 text-sm font-semibold text-gray-600 hover:text-primary-700">
+                    <span className="text-amber-500">
+                      {'★'.repeat(Math.round(reviewSummary.averageRating))}
+                      <span className="text-gray-300">{'★'.repeat(5 - Math.round(reviewSummary.averageRating))}</span>
+                    </span>
+                    {reviewSummary.totalReviews > 0
+                      ? `${reviewSummary.averageRating.toFixed(1)} · ${reviewSummary.totalReviews} ${
+                          reviewSummary.totalReviews === 1 ? 'reseña' : 'reseñas'
+                        }`
+                      : 'Sin reseñas todavía'}
+                  </a>
 
                   <hr className="my-6 border-gray-200" />
                   <h2 className="mb-2 text-xl font-bold text-gray-900">Descripción</h2>
@@ -102,22 +233,136 @@ export const ProductDetailPage = () => {
 
                 <aside className="h-fit rounded-2xl border border-gray-200 bg-gray-50 p-6">
                   <p className="text-sm text-gray-500">Precio</p>
-                  <p className="mb-6 text-4xl font-bold text-primary-700">${product.price}</p>
+                  {discountPercent > 0 ? (
+                    <div className="mb-6">
+                      <div className="flex items-center gap-2">
+                        <p className="text-lg font-semibold text-gray-400 line-through">${formatPrice(regularPrice)}</p>
+                        <span className="rounded-full bg-rose-600 px-2 py-0.5 text-xs font-bold text-white">
+                          -{discountPercent}%
+                        </span>
+                      </div>
+                      <p className="text-4xl font-bold text-rose-600">${formatPrice(displayPrice)}</p>
+                      {product.saleEndsAt && isSaleActive(product) && (
+                        <p className="mt-1 text-xs font-semibold text-rose-700">
+                          Oferta válida hasta el{' '}
+                          {new Date(product.saleEndsAt).toLocaleDateString('es-EC', { timeZone: 'America/Guayaquil' })}
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="mb-6 text-4xl font-bold text-primary-700">${formatPrice(displayPrice)}</p>
+                  )}
+
+                  {variantGroups.map((group) => (
+                    <div key={group.name} className="mb-4">
+                      <p className="mb-2 text-sm font-semibold text-gray-700">
+                        {group.name}
+                        {variantSelection[group.name] ? `: ${variantSelection[group.name]}` : ''}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {group.options.map((option) => {
+                          const isSelected = variantSelection[group.name] === option
+                          const isAvailable = isVariantOptionAvailable(product, variantSelection, group.name, option)
+
+                          return (
+                            <button
+                              key={option}
+                              type="button"
+                              disabled={!isAvailable}
+                              aria-pressed={isSelected}
+                              onClick={() =>
+                                setVariantSelection((prev) => ({
+                                  ...prev,
+                                  [group.name]: isSelected ? '' : option,
+                                }))
+                              }
+                              className={`rounded-full border px-3 py-1.5 text-sm font-semibold transition disabled:cursor-not-allowed disabled:line-through disabled:opacity-40 ${
+                                isSelected
+                                  ? 'border-primary-600 bg-primary-600 text-white'
+                                  : 'border-gray-300 bg-white text-gray-700 hover:border-primary-500 hover:text-primary-600'
+                              }`}
+                            >
+                              {option}
+                            </button>
+                          )
+                        })}
+                      </div>
+                    </div>
+                  ))}
+
+                  {stockStatus === 'low' && (
+                    <p className="mb-4 rounded-xl border border-amber-300 bg-amber-50 px-3 py-2 text-sm font-semibold text-amber-800">
+                      ¡Últimas unidades! Solo quedan {product.stock}.
+                    </p>
+                  )}
+                  {isSoldOut && (
+                    <p className="mb-4 rounded-xl border border-gray-300 bg-gray-100 px-3 py-2 text-sm font-semibold text-gray-700">
+                      Producto agotado por el momento.
+                    </p>
+                  )}
 
                   <button
                     type="button"
-                    onClick={() =>
-                      openWhatsApp(`Hola! Estoy interesado en: ${product.name} - $${product.price}`)
-                    }
-                    className="w-full rounded-xl bg-primary-600 px-4 py-3 text-base font-bold text-white transition hover:bg-primary-700"
+                    onClick={handleContact}
+                    disabled={isSoldOut}
+                    className="w-full rounded-xl bg-primary-600 px-4 py-3 text-base font-bold text-white transition hover:bg-primary-700 disabled:cursor-not-allowed disabled:opacity-50"
                   >
-                    Contactar Ahora
+                    {isSoldOut ? 'Agotado' : 'Contactar Ahora'}
                   </button>
+
+                  <div className="mt-4 flex items-center gap-2">
+                    <div className="flex items-center rounded-xl border border-gray-300 bg-white">
+                      <button
+                        type="button"
+                        aria-label="Disminuir cantidad"
+                        onClick={() => setQuantity((prev) => Math.max(1, prev - 1))}
+                        className="h-11 w-10 text-lg font-bold text-gray-700"
+                      >
+                        −
+                      </button>
+                      <span className="w-8 text-center text-sm font-semibold text-gray-900">{quantity}</span>
+                      <button
+                        type="button"
+                        aria-label="Aumentar cantidad"
+                        onClick={() => setQuantity((prev) => Math.min(maxQuantity, prev + 1))}
+                        disabled={quantity >= maxQuantity}
+                        className="h-11 w-10 text-lg font-bold text-gray-700 disabled:opacity-40"
+                      >
+                        +
+                      </button>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleAddToCart}
+                      disabled={isSoldOut}
+                      className="h-11 flex-1 rounded-xl border border-emerald-500 px-4 text-sm font-bold text-emerald-700 transition hover:bg-emerald-50 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      🛒 Agregar al carrito
+                    </button>
+                  </div>
                 </aside>
               </div>
             </>
           )}
         </section>
+
+        {product && (
+          <div id="opiniones" className="scroll-mt-28">
+            <CustomerReviewsSection
+              key={product.id}
+              product={product}
+              products={[product]}
+              reviews={productReviews}
+              averageRating={reviewSummary.averageRating}
+              totalReviews={reviewSummary.totalReviews}
+              totalLikes={reviewLikes}
+              ratingDistribution={getRatingDistribution(productReviews)}
+              onReviewSent={loadProductReviews}
+              visitorId={visitorId}
+              initialPurchaseCode={searchParams.get('codigo') ?? ''}
+            />
+          </div>
+        )}
       </main>
 
       <StoreFooter />
@@ -0,0 +1,274 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { StoreFooter } from '../components/StoreFooter'
+import { StoreHeader } from '../components/StoreHeader'
+import { apiService } from '../services/api'
+import type { Review } from '../types/review'
+import {
+  buildRatingGroups,
+  formatHours,
+  formatMonthKey,
+  getModerationStats,
+  getRecentMonthKeys,
+  getRecommendationRate,
+} from '../utils/reviewAnalytics'
+import { getReviewSummary } from '../utils/reviews'
+
+const MONTHS_TO_SHOW = 6
+const TOP_LIST_SIZE = 5
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`
+
+const getRatingClassName = (rating: number) => {
+  if (rating >= 4) return 'bg-emerald-100 text-emerald-800'
+  if (rating >= 3) return 'bg-amber-100 text-amber-800'
+  return 'bg-rose-100 text-rose-700'
+}
+
+export const ReviewAnalyticsPage = () => {
+  const navigate = useNavigate()
+  const [reviews, setReviews] = useState<Review[]>([])
+  const [loading, setLoading] = useState(true)
+  const [groupBy, setGroupBy] = useState<'product' | 'category'>('category')
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadReviews = async () => {
+      const fetchedReviews = await apiService.getAdminReviews()
+      if (!isMounted) return
+      setReviews(fetchedReviews)
+      setLoading(false)
+    }
+
+    void loadReviews()
+
+    return () => {
+      isMounted = false
+    }
+  }, [])
+
+  const ratedReviews = useMemo(() => reviews.filter((review) => review.status === 'approved'), [reviews])
+  const summary = useMemo(() => getReviewSummary(ratedReviews), [ratedReviews])
+  const moderationStats = useMemo(() => getModerationStats(reviews), [reviews])
+  const monthKeys = useMemo(() => getRecentMonthKeys(MONTHS_TO_SHOW), [])
+
+  const productGroups = useMemo(() => {
+    return buildRatingGroups(ratedReviews, (review) => ({ key: review.productId, label: review.productName }))
+  }, [ratedReviews])
+
+  const ratingGroups = useMemo(() => {
+    const groups =
+      groupBy === 'product'
+        ? productGroups
+        : buildRatingGroups(ratedReviews, (review) => ({ key: review.category.toLowerCase(), label: review.category }))
+
+    return [...groups].sort((first, second) => second.totalReviews - first.totalReviews)
+  }, [groupBy, productGroups, ratedReviews])
+
+  const worstRatedProducts = useMemo(() => {
+    return [...productGroups]
+      .sort((first, second) => first.averageRating - second.averageRating || second.totalReviews - first.totalReviews)
+      .slice(0, TOP_LIST_SIZE)
+  }, [productGroups])
+
+  const mostLikedReviews = useMemo(() => {
+    return reviews
+      .filter((review) => review.status === 'approved' && review.likeCount > 0)
+      .sort((first, second) => second.likeCount - first.likeCount)
+      .slice(0, TOP_LIST_SIZE)
+  }, [reviews])
+
+  const summaryCards = [
+    { label: 'Calificación promedio', value: summary.totalReviews > 0 ? `${summary.averageRating.toFixed(1)} / 5` : '—' },
+    { label: 'Reseñas consideradas', value: String(summary.totalReviews) },
+    { label: 'Recomiendan la tienda', value: formatPercent(getRecommendationRate(ratedReviews)) },
+    { label: 'Tasa de aprobación', value: formatPercent(moderationStats.approvalRate) },
+    { label: 'Pendientes', value: String(moderationStats.pending) },
+    {
+      label: 'Espera promedio',
+      value: moderationStats.pending > 0 ? formatHours(moderationStats.averagePendingHours) : '—',
+    },
+  ]
+
+  return (
+    <div className="min-h-screen bg-linear-to-b from-primary-900 via-primary-700 to-primary-500">
+      <StoreHeader subtitle="Analítica de reseñas" />
+
+      <main className="mx-auto w-full max-w-6xl px-4 pb-10 pt-32 md:px-8">
+        <section className="rounded-3xl bg-white p-6 shadow-2xl md:p-8">
+          <div className="mb-6 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 md:text-3xl">Analítica de reseñas</h1>
+              <p className="text-sm text-gray-600">Las calificaciones excluyen los comentarios rechazados.</p>
+            </div>
+            <button
+              type="button"
+              onClick={() => navigate('/admin/comentarios')}
+              className="rounded-xl border border-primary-500 px-4 py-2 text-sm font-semibold text-primary-700"
+            >
+              ← Volver
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="py-16 text-center text-gray-600">Cargando analítica...</div>
+          ) : reviews.length === 0 ? (
+            <div className="rounded-xl border border-dashed border-gray-300 py-16 text-center">
+              <p className="text-lg font-semibold text-gray-800">Aún no hay reseñas para analizar</p>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                {summaryCards.map((card) => (
+                  <div key={card.label} className="rounded-2xl border border-primary-100 bg-primary-50/60 p-4">
+                    <p className="text-xs font-semibold uppercase tracking-wide text-primary-700">{card.label}</p>
+                    <p className="mt-1 text-2xl font-bold text-gray-900">{card.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <div className="mb-3 flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                  <h2 className="text-lg font-bold text-gray-900">Calificación mensual</h2>
+                  <div className="flex gap-2">
+                    {[
+                      { value: 'category', label: 'Por categoría' },
+                      { value: 'product', label: 'Por producto' },
+                    ].map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setGroupBy(option.value as typeof groupBy)}
+                        className={`rounded-full border px-3 py-1.5 text-sm font-semibold transition ${
+                          groupBy === option.value
+                            ? 'border-primary-600 bg-primary-600 text-white'
+                            : 'border-gray-300 bg-white text-gray-700 hover:border-primary-500 hover:text-primary-600'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto rounded-2xl border border-gray-200">
+                  <table className="w-full min-w-180 text-left text-sm">
+                    <thead className="bg-gray-50 text-xs uppercase tracking-wide text-gray-500">
+                      <tr>
+                        <th className="px-4 py-3">{groupBy === 'product' ? 'Producto' : 'Categoría'}</th>
+                        {monthKeys.map((monthKey) => (
+                          <th key={monthKey} className="px-3 py-3 text-center">
+                            {formatMonthKey(monthKey)}
+                          </th>
+                        ))}
+                        <th className="px-3 py-3 text-center">Total</th>
+                        <th className="px-3 py-3 text-center">Recomiendan</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {ratingGroups.map((group) => (
+                        <tr key={group.key}>
+                          <td className="px-4 py-3 font-semibold text-gray-900">{group.label}</td>
+                          {monthKeys.map((monthKey) => {
+                            const month = group.monthly[monthKey]
+
+                            return (
+                              <td key={monthKey} className="px-3 py-3 text-center">
+                                {month ? (
+                                  <span
+                                    title={`${month.totalReviews} reseña(s)`}
+                                    className={`rounded-full px-2 py-0.5 text-xs font-bold ${getRatingClassName(month.averageRating)}`}
+                                  >
+                                    {month.averageRating.toFixed(1)}
+                                  </span>
+                                ) : (
+                                  <span className="text-gray-300">—</span>
+                                )}
+                              </td>
+                            )
+                          })}
+                          <td className="px-3 py-3 text-center font-semibold text-gray-900">
+                            {group.averageRating.toFixed(1)} <span className="text-xs text-gray-500">({group.totalReviews})</span>
+                          </td>
+                          <td className="px-3 py-3 text-center text-gray-700">{formatPercent(group.recommendRate)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="grid gap-6 lg:grid-cols-2">
+                <div>
+                  <h2 className="mb-3 text-lg font-bold text-gray-900">Productos peor calificados</h2>
+                  <ul className="space-y-2">
+                    {worstRatedProducts.map((group) => (
+                      <li
+                        key={group.key}
+                        className="flex items-center justify-between gap-3 rounded-xl border border-gray-200 bg-gray-50 px-4 py-3"
+                      >
+                        <span className="text-sm font-semibold text-gray-900">{group.label}</span>
+                        <span className={`rounded-full px-2.5 py-1 text-xs font-bold ${getRatingClassName(group.averageRating)}`}>
+                          ⭐ {group.averageRating.toFixed(1)} · {group.totalReviews} reseña(s)
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                <div>
+                  <h2 className="mb-3 text-lg font-bold text-gray-900">Reseñas con más likes</h2>
+                  {mostLikedReviews.length === 0 ? (
+                    <p className="rounded-xl border border-dashed border-gray-300 px-4 py-6 text-center text-sm text-gray-600">
+                      Aún no hay reseñas publicadas con likes
+                    </p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {mostLikedReviews.map((review) => (
+                        <li key={review.id} className="rounded-xl border border-gray-200 bg-gray-50 px-4 py-3">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="text-sm font-bold text-gray-900">{review.customerName}</p>
+                            <span className="text-xs font-semibold text-rose-600">❤️ {review.likeCount}</span>
+                          </div>
+                          <p className="text-xs font-semibold text-primary-700">{review.productName}</p>
+                          <p className="mt-1 line-clamp-2 text-sm text-gray-700">“{review.comment}”</p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <h2 className="mb-3 text-lg font-bold text-gray-900">Moderación</h2>
+                <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+                  <p className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+                    <span className="block text-xl font-bold">{moderationStats.pending}</span>
+                    pendientes
+                  </p>
+                  <p className="rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-900">
+                    <span className="block text-xl font-bold">{moderationStats.approved}</span>
+                    aprobados
+                  </p>
+                  <p className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-900">
+                    <span className="block text-xl font-bold">{moderationStats.rejected}</span>
+                    rechazados
+                  </p>
+                  <p className="rounded-xl border border-gray-200 bg-gray-50 px-4 py-3 text-sm text-gray-800">
+                    <span className="block text-xl font-bold">
+                      {moderationStats.pending > 0 ? formatHours(moderationStats.oldestPendingHours) : '—'}
+                    </span>
+                    pendiente más antiguo
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+        </section>
+      </main>
+
+      <StoreFooter />
+    </div>
+  )
+}
@@ -0,0 +1,439 @@
+import { useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { StoreFooter } from '../components/StoreFooter'
+import { StoreHeader } from '../components/StoreHeader'
+import { WhatsAppAgentsEditor } from '../components/WhatsAppAgentsEditor'
+import { apiService } from '../services/api'
+import type {
+  BusinessHoursDay,
+  DeveloperCredit,
+  OutOfHoursSettings,
+  ReviewModerationSettings,
+  StoreMessageTemplates,
+  StoreSettings,
+  StoreSocialLinks,
+  WhatsAppRoutingMode,
+} from '../types/storeSettings'
+import { parseBlockedWords } from '../utils/reviewScreening'
+import { WEEKDAY_LABELS, readStoreSettings, sanitizePhoneNumber, setStoreSettings } from '../utils/storeSettings'
+import { MESSAGE_PLACEHOLDERS, renderMessageTemplate } from '../utils/whatsapp'
+
+const SOCIAL_FIELDS: Array<{ key: keyof StoreSocialLinks; label: string; placeholder: string }> = [
+  { key: 'facebook', label: 'Facebook', placeholder: 'https://facebook.com/tutienda' },
+  { key: 'instagram', label: 'Instagram', placeholder: 'https://instagram.com/tutienda' },
+  { key: 'tiktok', label: 'TikTok', placeholder: 'https://tiktok.com/@tutienda' },
+]
+
+const DEVELOPER_CREDIT_FIELDS: Array<{ key: keyof DeveloperCredit; label: string }> = [
+  { key: 'companyName', label: 'Empresa' },
+  { key: 'tagline', label: 'Eslogan' },
+  { key: 'developerName', label: 'Desarrollado por' },
+  { key: 'logoUrl', label: 'URL del logo' },
+]
+
+const TEMPLATE_FIELDS: Array<{ key: keyof StoreMessageTemplates; label: string }> = [
+  { key: 'cardContact', label: 'Consulta desde el catálogo' },
+  { key: 'detailContact', label: 'Consulta desde el detalle del producto' },
+  { key: 'cartOrder', label: 'Encabezado del pedido del carrito' },
+]
+
+const TEMPLATE_PREVIEW_VALUES = {
+  producto: 'Audífonos Pro (Color: Negro)',
+  precio: '49.99',
+  categoria: 'Audio',
+  url: 'https://flstore.com/producto/123',
+  cantidad: '2',
+}
+
+const inputClassName =
+  'h-12 w-full rounded-xl border border-gray-300 bg-white px-4 text-sm outline-none ring-primary-200 focus:ring'
+
+export const StoreSettingsPage = () => {
+  const navigate = useNavigate()
+  const [settings, setSettings] = useState<StoreSettings>(readStoreSettings)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [categories, setCategories] = useState<string[]>([])
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadSettings = async () => {
+      const [fetchedSettings, fetchedProducts] = await Promise.all([
+        apiService.getStoreSettings(),
+        apiService.getProducts(),
+      ])
+      if (!isMounted) return
+      if (fetchedSettings) setSettings(fetchedSettings)
+      setCategories(
+        Array.from(new Set(fetchedProducts.map((item) => item.category.trim()).filter(Boolean))).sort((first, second) =>
+          first.localeCompare(second, 'es', { sensitivity: 'base' })
+        )
+      )
+      setLoading(false)
+    }
+
+    void loadSettings()
+
+    return () => {
+      isMounted = false
+    }
+  }, [])
+
+  const updateField = <Key extends keyof StoreSettings>(key: Key, value: StoreSettings[Key]) => {
+    setSettings((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const updateBusinessDay = (day: number, changes: Partial<BusinessHoursDay>) => {
+    updateField(
+      'businessHours',
+      settings.businessHours.map((item) => (item.day === day ? { ...item, ...changes } : item))
+    )
+  }
+
+  const updateReviewModeration = (changes: Partial<ReviewModerationSettings>) => {
+    updateField('reviewModeration', { ...settings.reviewModeration, ...changes })
+  }
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+
+    const whatsappAgents = settings.whatsappAgents.map((agent) => ({
+      ...agent,
+      name: agent.name.trim(),
+      phone: sanitizePhoneNumber(agent.phone),
+    }))
+
+    if (!settings.storeName.trim()) {
+      window.alert('El nombre de la tienda es obligatorio')
+      return
+    }
+
+    if (whatsappAgents.some((agent) => !agent.name || agent.phone.length < 10)) {
+      window.alert('Cada asesor necesita nombre y un número con código de país (Ej: 593991234567)')
+      return
+    }
+
+    if (!whatsappAgents.some((agent) => agent.isActive)) {
+      window.alert('Debe haber al menos un asesor activo')
+      return
+    }
+
+    if (
+      settings.outOfHours.mode === 'agent' &&
+      !whatsappAgents.some((agent) => agent.isActive && agent.id === settings.outOfHours.agentId)
+    ) {
+      window.alert('Selecciona un asesor activo para atender fuera de horario')
+      return
+    }
+
+    if (settings.businessHours.some((item) => item.isOpen && item.opensAt >= item.closesAt)) {
+      window.alert('La hora de cierre debe ser posterior a la de apertura')
+      return
+    }
+
+    const { autoRejectScore } = settings.reviewModeration
+    if (!Number.isInteger(autoRejectScore) || autoRejectScore < 1 || autoRejectScore > 100) {
+      window.alert('El puntaje de rechazo automático debe estar entre 1 y 100')
+      return
+    }
+
+    setSaving(true)
+    const saved = await apiService.updateStoreSettings({
+      ...settings,
+      storeName: settings.storeName.trim(),
+      whatsappAgents,
+      phone: sanitizePhoneNumber(settings.phone),
+      email: settings.email.trim(),
+      address: settings.address.trim(),
+      reviewModeration: {
+        ...settings.reviewModeration,
+        blockedWords: parseBlockedWords(settings.reviewModeration.blockedWords.join('\n')),
+      },
+    })
+    setSaving(false)
+
+    if (!saved) {
+      window.alert('No se pudo guardar la configuración')
+      return
+    }
+
+    setSettings(saved)
+    setStoreSettings(saved)
+    window.alert('Configuración guardada correctamente')
+  }
+
+  return (
+    <div className="min-h-screen bg-linear-to-b from-primary-900 via-primary-700 to-primary-500">
+      <StoreHeader subtitle="Configuración de la tienda" />
+
+      <main className="mx-auto w-full max-w-4xl px-4 pb-10 pt-32 md:px-8">
+        <section className="rounded-3xl bg-white p-6 shadow-2xl md:p-8">
+          <div className="mb-6 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+            <h1 className="text-2xl font-bold text-gray-900 md:text-3xl">Configuración de la tienda</h1>
+            <button
+              type="button"
+              onClick={() => navigate('/admin')}
+              className="rounded-xl border border-primary-500 px-4 py-2 text-sm font-semibold text-primary-700"
+            >
+              ← Volver
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="py-16 text-center text-gray-600">Cargando configuración...</div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <fieldset className="space-y-4">
+                <legend className="mb-2 text-lg font-bold text-primary-900">Datos generales</legend>
+                <label className="block">
+                  <span className="mb-1 block text-sm font-semibold text-gray-700">Nombre de la tienda</span>
+                  <input
+                    value={settings.storeName}
+                    onChange={(event) => updateField('storeName', event.target.value)}
+                    className={inputClassName}
+                  />
+                </label>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <label className="block">
+                    <span className="mb-1 block text-sm font-semibold text-gray-700">Celular</span>
+                    <input
+                      value={settings.phone}
+                      onChange={(event) => updateField('phone', event.target.value)}
+                      placeholder="593991234567"
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="mb-1 block text-sm font-semibold text-gray-700">Correo</span>
+                    <input
+                      type="email"
+                      value={settings.email}
+                      onChange={(event) => updateField('email', event.target.value)}
+                      className={inputClassName}
+                    />
+                  </label>
+                </div>
+                <label className="block">
+                  <span className="mb-1 block text-sm font-semibold text-gray-700">Dirección</span>
+                  <input
+                    value={settings.address}
+                    onChange={(event) => updateField('address', event.target.value)}
+                    placeholder="Opcional"
+                    className={inputClassName}
+                  />
+                </label>
+              </fieldset>
+
+              <fieldset className="space-y-3">
+                <legend className="mb-2 text-lg font-bold text-primary-900">Asesores de WhatsApp</legend>
+                <label className="block">
+                  <span className="mb-1 block text-sm font-semibold text-gray-700">Asignación de mensajes</span>
+                  <select
+                    value={settings.routingMode}
+                    onChange={(event) => updateField('routingMode', event.target.value as WhatsAppRoutingMode)}
+                    className={inputClassName}
+                  >
+                    <option value="category">Por categoría del producto</option>
+                    <option value="round_robin">Repartir clientes entre asesores (cada cliente conserva su asesor)</option>
+                  </select>
+                </label>
+                <WhatsAppAgentsEditor
+                  agents={settings.whatsappAgents}
+                  categories={settings.routingMode === 'category' ? categories : []}
+                  onChange={(agents) => updateField('whatsappAgents', agents)}
+                />
+              </fieldset>
+
+              <fieldset className="space-y-3">
+                <legend className="mb-2 text-lg font-bold text-primary-900">Redes sociales</legend>
+                <div className="grid gap-4 md:grid-cols-3">
+                  {SOCIAL_FIELDS.map((field) => (
+                    <label key={field.key} className="block">
+                      <span className="mb-1 block text-sm font-semibold text-gray-700">{field.label}</span>
+                      <input
+                        type="url"
+                        value={settings.socialLinks[field.key]}
+                        onChange={(event) =>
+                          updateField('socialLinks', { ...settings.socialLinks, [field.key]: event.target.value })
+                        }
+                        placeholder={field.placeholder}
+                        className={inputClassName}
+                      />
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+
+              <fieldset className="space-y-2">
+                <legend className="mb-2 text-lg font-bold text-primary-900">Horario de atención</legend>
+                {settings.businessHours.map((item) => (
+                  <div
+                    key={item.day}
+                    className="grid grid-cols-[1fr_auto] items-center gap-3 rounded-xl border border-gray-200 bg-gray-50 px-4 py-2 md:grid-cols-[160px_1fr]"
+                  >
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={item.isOpen}
+                        onChange={() => updateBusinessDay(item.day, { isOpen: !item.isOpen })}
+                      />
+                      <span className="text-sm font-semibold text-gray-700">{WEEKDAY_LABELS[item.day]}</span>
+                    </label>
+                    {item.isOpen ? (
+                      <div className="col-span-2 flex items-center gap-2 md:col-span-1">
+                        <input
+                          type="time"
+                          value={item.opensAt}
+                          onChange={(event) => updateBusinessDay(item.day, { opensAt: event.target.value })}
+                          className="h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm"
+                        />
+                        <span className="text-sm text-gray-500">a</span>
+                        <input
+                          type="time"
+                          value={item.closesAt}
+                          onChange={(event) => updateBusinessDay(item.day, { closesAt: event.target.value })}
+                          className="h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm"
+                        />
+                      </div>
+                    ) : (
+                      <span className="text-sm text-gray-500">Cerrado</span>
+                    )}
+                  </div>
+                ))}
+              </fieldset>
+
+              <fieldset className="space-y-3">
+                <legend className="mb-2 text-lg font-bold text-primary-900">Fuera de horario</legend>
+                <select
+                  value={settings.outOfHours.mode}
+                  onChange={(event) =>
+                    updateField('outOfHours', {
+                      ...settings.outOfHours,
+                      mode: event.target.value as OutOfHoursSettings['mode'],
+                    })
+                  }
+                  className={inputClassName}
+                >
+                  <option value="message">Avisar al cliente antes de enviar</option>
+                  <option value="agent">Derivar a un asesor de turno</option>
+                </select>
+                {settings.outOfHours.mode === 'agent' ? (
+                  <select
+                    value={settings.outOfHours.agentId}
+                    onChange={(event) => updateField('outOfHours', { ...settings.outOfHours, agentId: event.target.value })}
+                    className={inputClassName}
+                  >
+                    <option value="">Selecciona asesor</option>
+                    {settings.whatsappAgents
+                      .filter((agent) => agent.isActive)
+                      .map((agent) => (
+                        <option key={agent.id} value={agent.id}>
+                          {agent.name || agent.phone}
+                        </option>
+                      ))}
+                  </select>
+                ) : (
+                  <textarea
+                    value={settings.outOfHours.message}
+                    onChange={(event) => updateField('outOfHours', { ...settings.outOfHours, message: event.target.value })}
+                    rows={2}
+                    className="w-full rounded-xl border border-gray-300 px-4 py-3 text-sm outline-none ring-primary-200 focus:ring"
+                  />
+                )}
+              </fieldset>
+
+              <fieldset className="space-y-4">
+                <legend className="mb-2 text-lg font-bold text-primary-900">Mensajes de WhatsApp</legend>
+                <p className="text-xs text-gray-500">
+                  Variables disponibles: {MESSAGE_PLACEHOLDERS.map((placeholder) => `{${placeholder}}`).join(' ')}. Si no
+                  incluyes {'{url}'}, el enlace del producto se agrega al final.
+                </p>
+                {TEMPLATE_FIELDS.map((field) => (
+                  <label key={field.key} className="block">
+                    <span className="mb-1 block text-sm font-semibold text-gray-700">{field.label}</span>
+                    <textarea
+                      value={settings.messageTemplates[field.key]}
+                      onChange={(event) =>
+                        updateField('messageTemplates', { ...settings.messageTemplates, [field.key]: event.target.value })
+                      }
+                      rows={2}
+                      className="w-full rounded-xl border border-gray-300 px-4 py-3 text-sm outline-none ring-primary-200 focus:ring"
+                    />
+                    <span className="mt-1 block rounded-lg bg-emerald-50 px-3 py-2 text-xs text-emerald-900">
+                      Vista previa: {renderMessageTemplate(settings.messageTemplates[field.key], TEMPLATE_PREVIEW_VALUES)}
+                    </span>
+                  </label>
+                ))}
+              </fieldset>
+
+              <fieldset className="space-y-3">
+                <legend className="mb-2 text-lg font-bold text-primary-900">Moderación de comentarios</legend>
+                <p className="text-xs text-gray-500">
+                  Los comentarios nuevos se revisan en busca de estas palabras, enlaces, teléfonos, envíos repetidos y
+                  texto sin sentido. Escribe una palabra o frase por línea.
+                </p>
+                <textarea
+                  value={settings.reviewModeration.blockedWords.join('\n')}
+                  onChange={(event) => updateReviewModeration({ blockedWords: event.target.value.split('\n') })}
+                  rows={5}
+                  className="w-full rounded-xl border border-gray-300 px-4 py-3 text-sm outline-none ring-primary-200 focus:ring"
+                />
+                <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={settings.reviewModeration.autoReject}
+                    onChange={() => updateReviewModeration({ autoReject: !settings.reviewModeration.autoReject })}
+                  />
+                  Rechazar automáticamente comentarios de alto riesgo al recibirlos
+                </label>
+                {settings.reviewModeration.autoReject && (
+                  <label className="block">
+                    <span className="mb-1 block text-sm font-semibold text-gray-700">Puntaje de riesgo mínimo (1-100)</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={settings.reviewModeration.autoRejectScore}
+                      onChange={(event) => updateReviewModeration({ autoRejectScore: Number(event.target.value) })}
+                      className={inputClassName}
+                    />
+                  </label>
+                )}
+              </fieldset>
+
+              <fieldset className="space-y-3">
+                <legend className="mb-2 text-lg font-bold text-primary-900">Créditos del pie de página</legend>
+                <div className="grid gap-4 md:grid-cols-2">
+                  {DEVELOPER_CREDIT_FIELDS.map((field) => (
+                    <label key={field.key} className="block">
+                      <span className="mb-1 block text-sm font-semibold text-gray-700">{field.label}</span>
+                      <input
+                        value={settings.developerCredit[field.key]}
+                        onChange={(event) =>
+                          updateField('developerCredit', { ...settings.developerCredit, [field.key]: event.target.value })
+                        }
+                        className={inputClassName}
+                      />
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+
+              <button
+                type="submit"
+                disabled={saving}
+                className="w-full rounded-xl bg-primary-600 px-4 py-3 text-base font-bold text-white transition hover:bg-primary-700 disabled:opacity-60"
+              >
+                {saving ? 'Guardando...' : 'Guardar configuración'}
+              </button>
+            </form>
+          )}
+        </section>
+      </main>
+
+      <StoreFooter />
+    </div>
+  )
+}
@@ -1,12 +1,42 @@
 import axios from 'axios'
-import type { Product } from '../types/product'
-import type { CreateReviewPayload, PublicReviewStats, Review } from '../types/review'
+import type { Announcement, AnnouncementPayload } from '../types/announcement'
+import type { Product, ProductVariant, ProductVariantGroup } from '../types/product'
+import type {
+  AdminReview,
+  CreatePurchaseCodePayload,
+  CreateReviewPayload,
+  CreateReviewResult,
+  PublicReviewStats,
+  PurchaseCode,
+  RatingDistribution,
+  Review,
+  ReviewFlag,
+  ReviewLimitCode,
+  ReviewLimitError,
+  ReviewReply,
+  ReviewScreening,
+  UpdateOwnReviewPayload,
+} from '../types/review'
+import type { BusinessHoursDay, StoreSettings, WhatsAppAgent } from '../types/storeSettings'
+import { buildVariantCombinations, buildVariantKey } from '../utils/productVariants'
+import { REVIEW_LIMIT_MESSAGES, createReviewLimitError } from '../utils/reviewLimits'
+import { REVIEW_FLAG_LABELS, getRiskScore, parseBlockedWords } from '../utils/reviewScreening'
+import { getRatingDistribution } from '../utils/reviews'
+import { DEFAULT_STORE_SETTINGS, sanitizePhoneNumber } from '../utils/storeSettings'
 
 const API_URL = 'https://fl-store-backend.onrender.com/api'
 export const AUTH_TOKEN_STORAGE_KEY = '@fl_store_admin_token'
 
 type ProductApiResponse = Partial<Product> & { _id?: string }
-type ReviewApiResponse = Partial<Review> & { _id?: string; visitorLikes?: string[] }
+type AnnouncementApiResponse = Partial<Announcement> & { _id?: string }
+type StoreSettingsApiResponse = Partial<StoreSettings> & { whatsappNumbers?: string[] }
+type PurchaseCodeApiResponse = Partial<PurchaseCode>
+type ReviewApiResponse = Partial<Review> & {
+  _id?: string
+  visitorId?: string
+  visitorLikes?: string[]
+  screening?: unknown
+}
 
 interface PublicReviewsResponse {
   reviews: ReviewApiResponse[]
@@ -54,16 +84,256 @@ interface PushStatsResponse {
   lastSeenAt?: string | null
 }
 
+const normalizeVariantGroups = (groups: unknown): ProductVariantGroup[] => {
+  if (!Array.isArray(groups)) return []
+
+  const seenNames = new Set<string>()
+
+  return groups.reduce<ProductVariantGroup[]>((accumulator, group: Partial<ProductVariantGroup>) => {
+    const name = String(group?.name ?? '').trim()
+    if (!name || seenNames.has(name.toLowerCase())) return accumulator
+
+    const options = Array.from(
+      new Set((Array.isArray(group.options) ? group.options : []).map((option) => String(option).trim()).filter(Boolean))
+    )
+    if (options.length === 0) return accumulator
+
+    seenNames.add(name.toLowerCase())
+    accumulator.push({ name, options })
+    return accumulator
+  }, [])
+}
+
+const normalizeVariants = (groups: ProductVariantGroup[], variants: unknown): ProductVariant[] => {
+  const rawVariants = Array.isArray(variants) ? (variants as Array<Partial<ProductVariant>>) : []
+  const currentVariants = rawVariants.map((variant) => {
+    const options = variant.options ?? {}
+    const price = variant.price === null || variant.price === undefined ? null : Number(variant.price)
+
+    return {
+      key: buildVariantKey(groups, options),
+      options,
+      price: price !== null && Number.isFinite(price) && price > 0 ? price : null,
+      isAvailable: variant.isAvailable !== false,
+    }
+  })
+
+  return buildVariantCombinations(groups, currentVariants)
+}
+
+const normalizeStock = (stock: unknown): number | null => {
+  if (stock === null || stock === undefined || stock === '') return null
+
+  const parsed = Number(stock)
+  return Number.isFinite(parsed) ? Math.max(0, Math.floor(parsed)) : null
+}
+
+const normalizeSalePrice = (salePrice: unknown, price: number): number | null => {
+  if (salePrice === null || salePrice === undefined || salePrice === '') return null
+
+  const parsed = Number(salePrice)
+  return Number.isFinite(parsed) && parsed > 0 && parsed < price ? parsed : null
+}
+
+const normalizeDate = (value: unknown): string | null => {
+  if (!value) return null
+
+  const parsed = new Date(String(value))
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString()
+}
+
+const getObjectIdDate = (id: unknown): string | null => {
+  const value = String(id ?? '')
+  if (!/^[a-f\d]{24}$/i.test(value)) return null
+
+  return new Date(Number.parseInt(value.slice(0, 8), 16) * 1000).toISOString()
+}
+
+const normalizeBannerOrder = (order: unknown): number | null => {
+  if (order === null || order === undefined || order === '') return null
+
+  const parsed = Number(order)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null
+}
+
+const normalizeImages = (images: unknown, cover: string): string[] => {
+  const list = (Array.isArray(images) ? images : []).map((url) => String(url ?? '').trim()).filter(Boolean)
+  if (list.length === 0 && cover) return [cover]
+  return Array.from(new Set(list))
+}
+
 const normalizeProduct = (item: ProductApiResponse): Product => {
+  const variantGroups = normalizeVariantGroups(item.variantGroups)
+  const images = normalizeImages(item.images, String(item.image ?? '').trim())
+  const price = Number(item.price ?? 0)
+
   return {
     id: String(item.id ?? item._id ?? ''),
     name: item.name ?? '',
     description: item.description ?? '',
-    price: Number(item.price ?? 0),
-    image: item.image ?? '',
+    price,
+    salePrice: normalizeSalePrice(item.salePrice, price),
+    saleStartsAt: normalizeDate(item.saleStartsAt),
+    saleEndsAt: normalizeDate(item.saleEndsAt),
+    image: images[0] ?? '',
+    images,
     category: item.category ?? '',
     isNew: Boolean(item.isNew),
+    createdAt: normalizeDate(item.createdAt) ?? getObjectIdDate(item._id ?? item.id),
+    viewCount: Math.max(0, Number(item.viewCount ?? 0) || 0),
     isEnabled: item.isEnabled !== false,
+    showInBanner: item.showInBanner ?? Boolean(item.isNew),
+    bannerOrder: normalizeBannerOrder(item.bannerOrder),
+    bannerText: String(item.bannerText ?? '').trim(),
+    stock: normalizeStock(item.stock),
+    variantGroups,
+    variants: normalizeVariants(variantGroups, item.variants),
+  }
+}
+
+const toProductPayload = (product: Product) => {
+  const payload = { ...product }
+  delete payload.createdAt
+  delete payload.viewCount
+  return payload
+}
+
+const ANNOUNCEMENT_TYPES: Announcement['type'][] = ['oferta', 'envio', 'nuevo', 'custom']
+const ANNOUNCEMENT_LINK_TYPES: Announcement['linkType'][] = ['none', 'product', 'category']
+
+const normalizeAnnouncement = (item: AnnouncementApiResponse): Announcement => {
+  const type = ANNOUNCEMENT_TYPES.includes(item.type as Announcement['type']) ? (item.type as Announcement['type']) : 'custom'
+  const linkType = ANNOUNCEMENT_LINK_TYPES.includes(item.linkType as Announcement['linkType'])
+    ? (item.linkType as Announcement['linkType'])
+    : 'none'
+
+  return {
+    id: String(item.id ?? item._id ?? ''),
+    text: String(item.text ?? '').trim(),
+    type,
+    customLabel: String(item.customLabel ?? ''),
+    order: Number(item.order ?? 0),
+    startsAt: normalizeDate(item.startsAt),
+    endsAt: normalizeDate(item.endsAt),
+    isActive: item.isActive !== false,
+    linkType,
+    linkValue: linkType === 'none' ? '' : String(item.linkValue ?? ''),
+  }
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+const normalizeBusinessHours = (businessHours: unknown): BusinessHoursDay[] => {
+  const rawDays = Array.isArray(businessHours) ? (businessHours as Array<Partial<BusinessHoursDay>>) : []
+
+  return DEFAULT_STORE_SETTINGS.businessHours.map((defaultDay) => {
+    const rawDay = rawDays.find((item) => Number(item?.day) === defaultDay.day)
+    if (!rawDay) return defaultDay
+
+    const opensAt = String(rawDay.opensAt ?? '')
+    const closesAt = String(rawDay.closesAt ?? '')
+
+    return {
+      day: defaultDay.day,
+      isOpen: Boolean(rawDay.isOpen),
+      opensAt: TIME_PATTERN.test(opensAt) ? opensAt : defaultDay.opensAt,
+      closesAt: TIME_PATTERN.test(closesAt) ? closesAt : defaultDay.closesAt,
+    }
+  })
+}
+
+const normalizeWhatsAppAgents = (agents: unknown): WhatsAppAgent[] => {
+  const rawAgents = Array.isArray(agents) ? (agents as Array<Partial<WhatsAppAgent>>) : []
+
+  return rawAgents.reduce<WhatsAppAgent[]>((accumulator, agent, index) => {
+    const phone = sanitizePhoneNumber(String(agent?.phone ?? ''))
+    if (!phone) return accumulator
+
+    accumulator.push({
+      id: String(agent.id ?? '').trim() || `agente-${index + 1}`,
+      name: String(agent.name ?? '').trim() || `Asesor ${index + 1}`,
+      phone,
+      categories: (Array.isArray(agent.categories) ? agent.categories : [])
+        .map((category) => String(category).trim())
+        .filter(Boolean),
+      isActive: agent.isActive !== false,
+    })
+    return accumulator
+  }, [])
+}
+
+const normalizeStoreSettings = (item: StoreSettingsApiResponse): StoreSettings => {
+  const defaults = DEFAULT_STORE_SETTINGS
+  const legacyNumbers = Array.isArray(item.whatsappNumbers) ? item.whatsappNumbers : []
+  const whatsappAgents = normalizeWhatsAppAgents(
+    item.whatsappAgents ?? legacyNumbers.map((phone, index) => ({ name: `Asesor ${index + 1}`, phone }))
+  )
+  const outOfHoursMode = item.outOfHours?.mode === 'agent' ? 'agent' : 'message'
+
+  return {
+    storeName: String(item.storeName ?? '').trim() || defaults.storeName,
+    whatsappAgents: whatsappAgents.length > 0 ? whatsappAgents : defaults.whatsappAgents,
+    routingMode: item.routingMode === 'round_robin' ? 'round_robin' : 'category',
+    outOfHours: {
+      mode: outOfHoursMode,
+      message: String(item.outOfHours?.message ?? defaults.outOfHours.message).trim(),
+      agentId: outOfHoursMode === 'agent' ? String(item.outOfHours?.agentId ?? '') : '',
+    },
+    phone: sanitizePhoneNumber(String(item.phone ?? '')) || defaults.phone,
+    email: String(item.email ?? '').trim() || defaults.email,
+    address: String(item.address ?? '').trim(),
+    socialLinks: {
+      facebook: String(item.socialLinks?.facebook ?? '').trim(),
+      instagram: String(item.socialLinks?.instagram ?? '').trim(),
+      tiktok: String(item.socialLinks?.tiktok ?? '').trim(),
+    },
+    businessHours: normalizeBusinessHours(item.businessHours),
+    messageTemplates: {
+      cardContact: String(item.messageTemplates?.cardContact ?? '').trim() || defaults.messageTemplates.cardContact,
+      detailContact: String(item.messageTemplates?.detailContact ?? '').trim() || defaults.messageTemplates.detailContact,
+      cartOrder: String(item.messageTemplates?.cartOrder ?? '').trim() || defaults.messageTemplates.cartOrder,
+    },
+    reviewModeration: {
+      blockedWords: Array.isArray(item.reviewModeration?.blockedWords)
+        ? parseBlockedWords(item.reviewModeration.blockedWords.map((word) => String(word ?? '')).join('\n'))
+        : defaults.reviewModeration.blockedWords,
+      autoReject: Boolean(item.reviewModeration?.autoReject),
+      autoRejectScore: Math.min(
+        100,
+        Math.max(1, Number(item.reviewModeration?.autoRejectScore ?? defaults.reviewModeration.autoRejectScore) || 1)
+      ),
+    },
+    developerCredit: {
+      companyName: String(item.developerCredit?.companyName ?? '').trim() || defaults.developerCredit.companyName,
+      tagline: String(item.developerCredit?.tagline ?? '').trim() || defaults.developerCredit.tagline,
+      developerName: String(item.developerCredit?.developerName ?? '').trim() || defaults.developerCredit.developerName,
+      logoUrl: String(item.developerCredit?.logoUrl ?? '').trim() || defaults.developerCredit.logoUrl,
+    },
+  }
+}
+
+const normalizeReviewScreening = (screening: unknown): ReviewScreening => {
+  if (!screening || typeof screening !== 'object') return { riskScore: 0, flags: [] }
+
+  const rawFlags = (screening as Partial<ReviewScreening>).flags
+  const flags = (Array.isArray(rawFlags) ? rawFlags : []).filter(
+    (flag): flag is ReviewFlag => typeof flag === 'string' && flag in REVIEW_FLAG_LABELS
+  )
+
+  return { riskScore: getRiskScore(flags), flags }
+}
+
+const normalizeReviewReply = (reply: unknown): ReviewReply | null => {
+  if (!reply || typeof reply !== 'object') return null
+
+  const rawReply = reply as Partial<ReviewReply>
+  const text = String(rawReply.text ?? '').trim()
+  if (!text) return null
+
+  return {
+    text,
+    createdAt: String(rawReply.createdAt ?? ''),
+    updatedAt: String(rawReply.updatedAt ?? rawReply.createdAt ?? ''),
   }
 }
 
@@ -84,6 +354,37 @@ const normalizeReview = (item: ReviewApiResponse): Review => {
     likedByVisitor: Boolean(item.likedByVisitor),
     status: (item.status as Review['status']) ?? 'pending',
     createdAt: item.createdAt ?? '',
+    reply: normalizeReviewReply(item.reply),
+    images: (Array.isArray(item.images) ? item.images : []).map((url) => String(url ?? '').trim()).filter(Boolean),
+    verifiedPurchase: Boolean(item.verifiedPurchase),
+  }
+}
+
+const normalizeAdminReview = (item: ReviewApiResponse): AdminReview => ({
+  ...normalizeReview(item),
+  visitorId: String(item.visitorId ?? ''),
+  screening: normalizeReviewScreening(item.screening),
+})
+
+const normalizePurchaseCode = (item: PurchaseCodeApiResponse): PurchaseCode => ({
+  code: String(item.code ?? '').trim().toUpperCase(),
+  productId: String(item.productId ?? ''),
+  productName: String(item.productName ?? ''),
+  customerName: String(item.customerName ?? '').trim(),
+  createdAt: String(item.createdAt ?? ''),
+  usedAt: item.usedAt ? String(item.usedAt) : null,
+})
+
+const normalizeRatingDistribution = (distribution: unknown, reviews: Review[]): RatingDistribution => {
+  if (!distribution || typeof distribution !== 'object') return getRatingDistribution(reviews)
+
+  const rawDistribution = distribution as Partial<Record<string, unknown>>
+  return {
+    1: Number(rawDistribution[1] ?? 0),
+    2: Number(rawDistribution[2] ?? 0),
+    3: Number(rawDistribution[3] ?? 0),
+    4: Number(rawDistribution[4] ?? 0),
+    5: Number(rawDistribution[5] ?? 0),
   }
 }
 
@@ -130,6 +431,19 @@ const handleAdminUnauthorized = (error: unknown) => {
   authService.clearToken()
 }
 
+const getReviewLimitError = (error: unknown, fallbackCode?: ReviewLimitCode): ReviewLimitError | null => {
+  if (!axios.isAxiosError(error)) return null
+  if (error.response?.status !== 409 && error.response?.status !== 429) return null
+
+  const data = (error.response.data ?? {}) as { code?: string; retryAfterSeconds?: number }
+  const code = data.code && data.code in REVIEW_LIMIT_MESSAGES ? (data.code as ReviewLimitCode) : fallbackCode
+  if (!code) return null
+
+  const retryAfterSeconds = Number(data.retryAfterSeconds ?? error.response.headers['retry-after'] ?? 0)
+
+  return createReviewLimitError(code, Number.isFinite(retryAfterSeconds) ? retryAfterSeconds : 0)
+}
+
 export const apiService = {
   async getProducts(): Promise<Product[]> {
     try {
@@ -169,7 +483,7 @@ export const apiService = {
 
   async updateProduct(id: string, product: Product): Promise<Product | null> {
     try {
-      const response = await axios.put<ProductApiResponse>(`${API_URL}/products/${id}`, product, {
+      const response = await axios.put<ProductApiResponse>(`${API_URL}/products/${id}`, toProductPayload(product), {
         headers: getRequiredAuthHeaders('actualizar producto'),
       })
       return normalizeProduct(response.data)
@@ -210,6 +524,18 @@ export const apiService = {
     }
   },
 
+  async uploadImages(files: File[]): Promise<string[] | null> {
+    const uploaded: string[] = []
+
+    for (const file of files) {
+      const url = await this.uploadImage(file)
+      if (!url) return null
+      uploaded.push(url)
+    }
+
+    return uploaded
+  },
+
   async login(username: string, password: string): Promise<string | null> {
     try {
       const response = await axios.post<{ success: boolean; token?: string }>(`${API_URL}/login`, {
@@ -227,12 +553,66 @@ export const apiService = {
     }
   },
 
-  async createReview(payload: CreateReviewPayload): Promise<string | null> {
+  async createReview(payload: CreateReviewPayload): Promise<CreateReviewResult | ReviewLimitError | null> {
     try {
-      const response = await axios.post<{ message: string }>(`${API_URL}/reviews`, payload)
-      return response.data.message
+      const response = await axios.post<{ message: string; id?: string; _id?: string; editToken?: string }>(
+        `${API_URL}/reviews`,
+        payload
+      )
+      return {
+        message: response.data.message,
+        reviewId: String(response.data.id ?? response.data._id ?? ''),
+        editToken: String(response.data.editToken ?? ''),
+      }
     } catch (error) {
       console.error('Error creating review:', error)
+      return getReviewLimitError(error)
+    }
+  },
+
+  async getVisitorReviews(visitorId: string): Promise<Review[]> {
+    try {
+      const response = await axios.get<ReviewApiResponse[]>(`${API_URL}/reviews/visitor/${visitorId}`)
+      return response.data.map(normalizeReview)
+    } catch (error) {
+      console.error('Error loading visitor reviews:', error)
+      return []
+    }
+  },
+
+  async updateOwnReview(id: string, editToken: string, payload: UpdateOwnReviewPayload): Promise<Review | null> {
+    try {
+      const response = await axios.put<ReviewApiResponse>(`${API_URL}/reviews/${id}/visitor`, payload, {
+        headers: { 'X-Review-Edit-Token': editToken },
+      })
+      return normalizeReview(response.data)
+    } catch (error) {
+      console.error('Error updating own review:', error)
+      return null
+    }
+  },
+
+  async deleteOwnReview(id: string, editToken: string): Promise<boolean> {
+    try {
+      await axios.delete(`${API_URL}/reviews/${id}/visitor`, { headers: { 'X-Review-Edit-Token': editToken } })
+      return true
+    } catch (error) {
+      console.error('Error deleting own review:', error)
+      return false
+    }
+  },
+
+  async uploadReviewImage(reviewId: string, editToken: string, file: File): Promise<string | null> {
+    try {
+      const formData = new FormData()
+      formData.append('image', file)
+
+      const response = await axios.post<{ url: string }>(`${API_URL}/reviews/${reviewId}/images`, formData, {
+        headers: { 'X-Review-Edit-Token': editToken },
+      })
+      return response.data.url
+    } catch (error) {
+      console.error('Error uploading review image:', error)
       return null
     }
   },
@@ -248,6 +628,7 @@ export const apiService = {
         totalReviews: Number(response.data.stats?.totalReviews ?? 0),
         averageRating: Number(response.data.stats?.averageRating ?? 0),
         totalLikes: Number(response.data.stats?.totalLikes ?? 0),
+        ratingDistribution: normalizeRatingDistribution(response.data.stats?.ratingDistribution, normalizedPublicReviews),
       }
 
       return {
@@ -262,17 +643,18 @@ export const apiService = {
           totalReviews: 0,
           averageRating: 0,
           totalLikes: 0,
+          ratingDistribution: getRatingDistribution([]),
         },
       }
     }
   },
 
-  async getAdminReviews(): Promise<Review[]> {
+  async getAdminReviews(): Promise<AdminReview[]> {
     try {
       const response = await axios.get<ReviewApiResponse[]>(`${API_URL}/reviews/admin`, {
         headers: getRequiredAuthHeaders('obtener reseñas administrativas'),
       })
-      return response.data.map(normalizeReview)
+      return response.data.map(normalizeAdminReview)
     } catch (error) {
       handleAdminUnauthorized(error)
       console.error('Error loading admin reviews:', error)
@@ -280,12 +662,12 @@ export const apiService = {
     }
   },
 
-  async updateReviewStatus(id: string, status: Review['status']): Promise<Review | null> {
+  async updateReviewStatus(id: string, status: Review['status']): Promise<AdminReview | null> {
     try {
       const response = await axios.patch<ReviewApiResponse>(`${API_URL}/reviews/${id}/status`, { status }, {
         headers: getRequiredAuthHeaders('actualizar estado de reseña'),
       })
-      return normalizeReview(response.data)
+      return normalizeAdminReview(response.data)
     } catch (error) {
       handleAdminUnauthorized(error)
       console.error('Error updating review status:', error)
@@ -293,11 +675,77 @@ export const apiService = {
     }
   },
 
+  async updateReviewsStatus(ids: string[], status: Review['status']): Promise<AdminReview[] | null> {
+    try {
+      const response = await axios.patch<ReviewApiResponse[]>(`${API_URL}/reviews/bulk/status`, { ids, status }, {
+        headers: getRequiredAuthHeaders('actualizar reseñas'),
+      })
+      return response.data.map(normalizeAdminReview)
+    } catch (error) {
+      handleAdminUnauthorized(error)
+      console.error('Error updating reviews status:', error)
+      return null
+    }
+  },
+
+  async deleteReviews(ids: string[]): Promise<boolean> {
+    try {
+      await axios.delete(`${API_URL}/reviews/bulk`, {
+        data: { ids },
+        headers: getRequiredAuthHeaders('eliminar reseñas'),
+      })
+      return true
+    } catch (error) {
+      handleAdminUnauthorized(error)
+      console.error('Error deleting reviews:', error)
+      return false
+    }
+  },
+
+  async updateReviewImages(id: string, images: string[]): Promise<AdminReview | null> {
+    try {
+      const response = await axios.patch<ReviewApiResponse>(`${API_URL}/reviews/${id}/images`, { images }, {
+        headers: getRequiredAuthHeaders('actualizar fotos de reseña'),
+      })
+      return normalizeAdminReview(response.data)
+    } catch (error) {
+      handleAdminUnauthorized(error)
+      console.error('Error updating review images:', error)
+      return null
+    }
+  },
+
+  async saveReviewReply(id: string, text: string): Promise<AdminReview | null> {
+    try {
+      const response = await axios.put<ReviewApiResponse>(`${API_URL}/reviews/${id}/reply`, { text }, {
+        headers: getRequiredAuthHeaders('responder reseña'),
+      })
+      return normalizeAdminReview(response.data)
+    } catch (error) {
+      handleAdminUnauthorized(error)
+      console.error('Error saving review reply:', error)
+      return null
+    }
+  },
+
+  async deleteReviewReply(id: string): Promise<AdminReview | null> {
+    try {
+      const response = await axios.delete<ReviewApiResponse>(`${API_URL}/reviews/${id}/reply`, {
+        headers: getRequiredAuthHeaders('eliminar respuesta de reseña'),
+      })
+      return normalizeAdminReview(response.data)
+    } catch (error) {
+      handleAdminUnauthorized(error)
+      console.error('Error deleting review reply:', error)
+      return null
+    }
+  },
+
   async setReviewLike(
     reviewId: string,
     visitorId: string,
     liked: boolean
-  ): Promise<{ likeCount: number; likedByVisitor: boolean } | null> {
+  ): Promise<{ likeCount: number; likedByVisitor: boolean } | ReviewLimitError | null> {
     try {
       const response = await axios.patch<{ likeCount: number; likedByVisitor: boolean }>(
         `${API_URL}/reviews/${reviewId}/like`,
@@ -310,6 +758,141 @@ export const apiService = {
       }
     } catch (error) {
       console.error('Error updating review like:', error)
+      return getReviewLimitError(error, 'like_cooldown')
+    }
+  },
+
+  async verifyPurchaseCode(code: string): Promise<PurchaseCode | null> {
+    try {
+      const response = await axios.get<PurchaseCodeApiResponse>(`${API_URL}/review-codes/${encodeURIComponent(code)}`)
+      const purchaseCode = normalizePurchaseCode(response.data)
+      return purchaseCode.code && !purchaseCode.usedAt ? purchaseCode : null
+    } catch (error) {
+      console.error('Error verifying purchase code:', error)
+      return null
+    }
+  },
+
+  async getPurchaseCodes(): Promise<PurchaseCode[]> {
+    try {
+      const response = await axios.get<PurchaseCodeApiResponse[]>(`${API_URL}/review-codes`, {
+        headers: getRequiredAuthHeaders('obtener códigos de compra'),
+      })
+      return response.data.map(normalizePurchaseCode).filter((item) => item.code)
+    } catch (error) {
+      handleAdminUnauthorized(error)
+      console.error('Error loading purchase codes:', error)
+      return []
+    }
+  },
+
+  async createPurchaseCode(payload: CreatePurchaseCodePayload): Promise<PurchaseCode | null> {
+    try {
+      const response = await axios.post<PurchaseCodeApiResponse>(`${API_URL}/review-codes`, payload, {
+        headers: getRequiredAuthHeaders('registrar venta'),
+      })
+      return normalizePurchaseCode(response.data)
+    } catch (error) {
+      handleAdminUnauthorized(error)
+      console.error('Error creating purchase code:', error)
+      return null
+    }
+  },
+
+  async deletePurchaseCode(code: string): Promise<boolean> {
+    try {
+      await axios.delete(`${API_URL}/review-codes/${encodeURIComponent(code)}`, {
+        headers: getRequiredAuthHeaders('eliminar código de compra'),
+      })
+      return true
+    } catch (error) {
+      handleAdminUnauthorized(error)
+      console.error('Error deleting purchase code:', error)
+      return false
+    }
+  },
+
+  async getAnnouncements(): Promise<Announcement[]> {
+    try {
+      const response = await axios.get<AnnouncementApiResponse[]>(`${API_URL}/announcements`)
+      return response.data.map(normalizeAnnouncement).filter((item) => item.id && item.text)
+    } catch (error) {
+      console.error('Error loading announcements:', error)
+      return []
+    }
+  },
+
+  async getAdminAnnouncements(): Promise<Announcement[]> {
+    try {
+      const response = await axios.get<AnnouncementApiResponse[]>(`${API_URL}/announcements/admin`, {
+        headers: getRequiredAuthHeaders('obtener anuncios'),
+      })
+      return response.data.map(normalizeAnnouncement)
+    } catch (error) {
+      handleAdminUnauthorized(error)
+      console.error('Error loading admin announcements:', error)
+      return []
+    }
+  },
+
+  async createAnnouncement(payload: AnnouncementPayload): Promise<Announcement | null> {
+    try {
+      const response = await axios.post<AnnouncementApiResponse>(`${API_URL}/announcements`, payload, {
+        headers: getRequiredAuthHeaders('crear anuncio'),
+      })
+      return normalizeAnnouncement(response.data)
+    } catch (error) {
+      handleAdminUnauthorized(error)
+      console.error('Error creating announcement:', error)
+      return null
+    }
+  },
+
+  async updateAnnouncement(id: string, payload: AnnouncementPayload): Promise<Announcement | null> {
+    try {
+      const response = await axios.put<AnnouncementApiResponse>(`${API_URL}/announcements/${id}`, payload, {
+        headers: getRequiredAuthHeaders('actualizar anuncio'),
+      })
+      return normalizeAnnouncement(response.data)
+    } catch (error) {
+      handleAdminUnauthorized(error)
+      console.error('Error updating announcement:', error)
+      return null
+    }
+  },
+
+  async deleteAnnouncement(id: string): Promise<boolean> {
+    try {
+      await axios.delete(`${API_URL}/announcements/${id}`, {
+        headers: getRequiredAuthHeaders('eliminar anuncio'),
+      })
+      return true
+    } catch (error) {
+      handleAdminUnauthorized(error)
+      console.error('Error deleting announcement:', error)
+      return false
+    }
+  },
+
+  async getStoreSettings(): Promise<StoreSettings | null> {
+    try {
+      const response = await axios.get<StoreSettingsApiResponse>(`${API_URL}/settings`)
+      return normalizeStoreSettings(response.data ?? {})
+    } catch (error) {
+      console.error('Error loading store settings:', error)
+      return null
+    }
+  },
+
+  async updateStoreSettings(settings: StoreSettings): Promise<StoreSettings | null> {
+    try {
+      const response = await axios.put<StoreSettingsApiResponse>(`${API_URL}/settings`, settings, {
+        headers: getRequiredAuthHeaders('guardar configuración'),
+      })
+      return normalizeStoreSettings(response.data ?? {})
+    } catch (error) {
+      handleAdminUnauthorized(error)
+      console.error('Error updating store settings:', error)
       return null
     }
   },
@@ -340,6 +923,16 @@ export const apiService = {
     }
   },
 
+  async registerProductView(productId: string, visitorId: string): Promise<number | null> {
+    try {
+      const response = await axios.post<{ viewCount?: number }>(`${API_URL}/products/${productId}/view`, { visitorId })
+      return Number(response.data.viewCount ?? 0)
+    } catch (error) {
+      console.error('Error registering product view:', error)
+      return null
+    }
+  },
+
   async getAdminMetrics(): Promise<{
     totalVisits: number
     apkDownloads: number
@@ -0,0 +1,16 @@
+export type AnnouncementType = 'oferta' | 'envio' | 'nuevo' | 'custom'
+
+export interface Announcement {
+  id: string
+  text: string
+  type: AnnouncementType
+  customLabel: string
+  order: number
+  startsAt: string | null
+  endsAt: string | null
+  isActive: boolean
+  linkType: 'none' | 'product' | 'category'
+  linkValue: string
+}
+
+export type AnnouncementPayload = Omit<Announcement, 'id'>
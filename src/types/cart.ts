@@ -0,0 +1,12 @@
+export interface CartItem {
+  lineId: string
+  productId: string
+  name: string
+  price: number
+  image: string
+  category: string
+  variantKey: string
+  variantLabel: string
+  quantity: number
+  maxQuantity: number
+}
@@ -1,10 +1,34 @@
+export interface ProductVariantGroup {
+  name: string
+  options: string[]
+}
+
+export interface ProductVariant {
+  key: string
+  options: Record<string, string>
+  price: number | null
+  isAvailable: boolean
+}
+
 export interface Product {
   id: string
   name: string
   description: string
   price: number
+  salePrice?: number | null
+  saleStartsAt?: string | null
+  saleEndsAt?: string | null
   image: string
+  images?: string[]
   category: string
   isNew: boolean
+  createdAt?: string | null
+  viewCount?: number
   isEnabled?: boolean
+  showInBanner?: boolean
+  bannerOrder?: number | null
+  bannerText?: string
+  stock?: number | null
+  variantGroups?: ProductVariantGroup[]
+  variants?: ProductVariant[]
 }
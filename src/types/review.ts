@@ -1,3 +1,16 @@
+export interface ReviewReply {
+  text: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type ReviewFlag = 'profanity' | 'link' | 'phone' | 'repeat' | 'gibberish'
+
+export interface ReviewScreening {
+  riskScore: number
+  flags: ReviewFlag[]
+}
+
 export interface Review {
   id: string
   customerName: string
@@ -11,12 +24,37 @@ export interface Review {
   likedByVisitor: boolean
   status: 'pending' | 'approved' | 'rejected'
   createdAt: string
+  reply: ReviewReply | null
+  images: string[]
+  verifiedPurchase: boolean
+}
+
+export interface AdminReview extends Review {
+  visitorId: string
+  screening: ReviewScreening
+}
+
+export interface CreateReviewResult {
+  message: string
+  reviewId: string
+  editToken: string
 }
 
+export type ReviewLimitCode = 'duplicate_product' | 'daily_limit' | 'like_cooldown'
+
+export interface ReviewLimitError {
+  code: ReviewLimitCode
+  message: string
+  retryAfterSeconds: number
+}
+
+export type RatingDistribution = Record<1 | 2 | 3 | 4 | 5, number>
+
 export interface PublicReviewStats {
   totalReviews: number
   averageRating: number
   totalLikes: number
+  ratingDistribution: RatingDistribution
 }
 
 export interface CreateReviewPayload {
@@ -27,4 +65,24 @@ export interface CreateReviewPayload {
   rating: number
   comment: string
   recommend: boolean
+  visitorId: string
+  purchaseCode: string
 }
+
+export interface UpdateOwnReviewPayload {
+  customerName: string
+  rating: number
+  comment: string
+  recommend: boolean
+}
+
+export interface PurchaseCode {
+  code: string
+  productId: string
+  productName: string
+  customerName: string
+  createdAt: string
+  usedAt: string | null
+}
+
+export type CreatePurchaseCodePayload = Pick<PurchaseCode, 'productId' | 'productName' | 'customerName'>
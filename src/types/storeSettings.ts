@@ -0,0 +1,62 @@
+export interface BusinessHoursDay {
+  day: number
+  isOpen: boolean
+  opensAt: string
+  closesAt: string
+}
+
+export interface WhatsAppAgent {
+  id: string
+  name: string
+  phone: string
+  categories: string[]
+  isActive: boolean
+}
+
+export type WhatsAppRoutingMode = 'category' | 'round_robin'
+
+export interface OutOfHoursSettings {
+  mode: 'message' | 'agent'
+  message: string
+  agentId: string
+}
+
+export interface StoreSocialLinks {
+  facebook: string
+  instagram: string
+  tiktok: string
+}
+
+export interface StoreMessageTemplates {
+  cardContact: string
+  detailContact: string
+  cartOrder: string
+}
+
+export interface ReviewModerationSettings {
+  blockedWords: string[]
+  autoReject: boolean
+  autoRejectScore: number
+}
+
+export interface DeveloperCredit {
+  companyName: string
+  tagline: string
+  developerName: string
+  logoUrl: string
+}
+
+export interface StoreSettings {
+  storeName: string
+  whatsappAgents: WhatsAppAgent[]
+  routingMode: WhatsAppRoutingMode
+  outOfHours: OutOfHoursSettings
+  phone: string
+  email: string
+  address: string
+  socialLinks: StoreSocialLinks
+  businessHours: BusinessHoursDay[]
+  messageTemplates: StoreMessageTemplates
+  reviewModeration: ReviewModerationSettings
+  developerCredit: DeveloperCredit
+}
@@ -0,0 +1,29 @@
+import type { Announcement, AnnouncementType } from '../types/announcement'
+
+export const ANNOUNCEMENT_TYPE_LABELS: Record<AnnouncementType, string> = {
+  oferta: '🔥 OFERTA',
+  envio: '🚚 ENVÍO',
+  nuevo: '🆕 NUEVO',
+  custom: '✨ AVISO',
+}
+
+export const isAnnouncementLive = (announcement: Announcement, now = new Date()) => {
+  if (!announcement.isActive) return false
+
+  const time = now.getTime()
+  if (announcement.startsAt && new Date(announcement.startsAt).getTime() > time) return false
+  if (announcement.endsAt && new Date(announcement.endsAt).getTime() < time) return false
+  return true
+}
+
+export const sortAnnouncements = (announcements: Announcement[]) => {
+  return [...announcements].sort((first, second) => first.order - second.order)
+}
+
+export const getAnnouncementBadge = (announcement: Pick<Announcement, 'type' | 'customLabel'>) => {
+  if (announcement.type === 'custom' && announcement.customLabel.trim()) {
+    return announcement.customLabel.trim().toUpperCase()
+  }
+
+  return ANNOUNCEMENT_TYPE_LABELS[announcement.type]
+}
@@ -0,0 +1,29 @@
+import type { BusinessHoursDay } from '../types/storeSettings'
+
+export const ECUADOR_TIMEZONE = 'America/Guayaquil'
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 }
+
+export const getEcuadorTime = (now = new Date()) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: ECUADOR_TIMEZONE,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now)
+  const getPart = (type: Intl.DateTimeFormatPartTypes) => parts.find((part) => part.type === type)?.value ?? ''
+
+  return {
+    day: WEEKDAY_INDEX[getPart('weekday')] ?? 0,
+    time: `${getPart('hour')}:${getPart('minute')}`,
+  }
+}
+
+export const isWithinBusinessHours = (businessHours: BusinessHoursDay[], now = new Date()) => {
+  const { day, time } = getEcuadorTime(now)
+  const today = businessHours.find((item) => item.day === day)
+  if (!today?.isOpen) return false
+
+  return time >= today.opensAt && time < today.closesAt
+}
@@ -0,0 +1,175 @@
+import type { CartItem } from '../types/cart'
+import type { Product, ProductVariant } from '../types/product'
+import { getEffectivePrice } from './productPricing'
+import { getMaxOrderQuantity } from './productStock'
+import { formatVariantLabel, getVariantPrice } from './productVariants'
+
+const CART_STORAGE_KEY = '@fl_store_cart'
+const CART_CHANGE_EVENT = 'fl-store-cart-change'
+export const MAX_ITEM_QUANTITY = 99
+
+const EMPTY_CART: CartItem[] = []
+
+let cachedRaw: string | null = null
+let cachedCart: CartItem[] = EMPTY_CART
+
+const buildCartLineId = (productId: string, variantKey: string) => {
+  return variantKey ? `${productId}::${variantKey}` : productId
+}
+
+const parseCart = (raw: string | null): CartItem[] => {
+  if (!raw) return EMPTY_CART
+
+  try {
+    const parsed = JSON.parse(raw) as CartItem[]
+    if (!Array.isArray(parsed)) return EMPTY_CART
+
+    return parsed
+      .filter((item) => item && item.productId)
+      .map((item) => {
+        const maxQuantity = Math.min(MAX_ITEM_QUANTITY, Math.max(1, Math.floor(Number(item.maxQuantity) || MAX_ITEM_QUANTITY)))
+
+        return {
+          lineId: buildCartLineId(String(item.productId), String(item.variantKey ?? '')),
+          productId: String(item.productId),
+          name: String(item.name ?? ''),
+          price: Number(item.price ?? 0),
+          image: String(item.image ?? ''),
+          category: String(item.category ?? ''),
+          variantKey: String(item.variantKey ?? ''),
+          variantLabel: String(item.variantLabel ?? ''),
+          quantity: Math.min(maxQuantity, Math.max(1, Math.floor(Number(item.quantity) || 1))),
+          maxQuantity,
+        }
+      })
+  } catch {
+    return EMPTY_CART
+  }
+}
+
+export const readCart = (): CartItem[] => {
+  const raw = localStorage.getItem(CART_STORAGE_KEY)
+  if (raw === cachedRaw) return cachedCart
+
+  cachedRaw = raw
+  cachedCart = parseCart(raw)
+  return cachedCart
+}
+
+const writeCart = (items: CartItem[]) => {
+  if (items.length === 0) {
+    localStorage.removeItem(CART_STORAGE_KEY)
+  } else {
+    localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items))
+  }
+  window.dispatchEvent(new Event(CART_CHANGE_EVENT))
+}
+
+export const subscribeCart = (onChange: () => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === null || event.key === CART_STORAGE_KEY) onChange()
+  }
+
+  window.addEventListener(CART_CHANGE_EVENT, onChange)
+  window.addEventListener('storage', handleStorage)
+
+  return () => {
+    window.removeEventListener(CART_CHANGE_EVENT, onChange)
+    window.removeEventListener('storage', handleStorage)
+  }
+}
+
+export const getCartLineMaxQuantity = (items: CartItem[], lineId: string) => {
+  const line = items.find((item) => item.lineId === lineId)
+  if (!line) return 0
+
+  const otherLinesQuantity = items
+    .filter((item) => item.productId === line.productId && item.lineId !== lineId)
+    .reduce((sum, item) => sum + item.quantity, 0)
+
+  return Math.max(0, line.maxQuantity - otherLinesQuantity)
+}
+
+export const addCartItem = (product: Product, quantity = 1, variant: ProductVariant | null = null) => {
+  const items = readCart()
+  const variantKey = variant?.key ?? ''
+  const lineId = buildCartLineId(product.id, variantKey)
+  const maxQuantity = getMaxOrderQuantity(product, MAX_ITEM_QUANTITY)
+  const productQuantity = items
+    .filter((item) => item.productId === product.id)
+    .reduce((sum, item) => sum + item.quantity, 0)
+  const addedQuantity = Math.min(Math.max(1, quantity), maxQuantity - productQuantity)
+  if (addedQuantity <= 0) return 0
+
+  const existing = items.find((item) => item.lineId === lineId)
+
+  if (existing) {
+    writeCart(
+      items.map((item) =>
+        item.lineId === lineId ? { ...item, quantity: item.quantity + addedQuantity, maxQuantity } : item
+      )
+    )
+    return addedQuantity
+  }
+
+  writeCart([
+    ...items,
+    {
+      lineId,
+      productId: product.id,
+      name: product.name,
+      price: getEffectivePrice(product, variant?.price ?? product.price),
+      image: product.image,
+      category: product.category,
+      variantKey,
+      variantLabel: variant ? formatVariantLabel(product.variantGroups ?? [], variant.options) : '',
+      quantity: addedQuantity,
+      maxQuantity,
+    },
+  ])
+  return addedQuantity
+}
+
+export const setCartItemQuantity = (lineId: string, quantity: number) => {
+  if (quantity <= 0) {
+    removeCartItem(lineId)
+    return
+  }
+
+  const items = readCart()
+  const lineMaxQuantity = getCartLineMaxQuantity(items, lineId)
+
+  writeCart(
+    items.map((item) =>
+      item.lineId === lineId ? { ...item, quantity: Math.max(1, Math.min(lineMaxQuantity, quantity)) } : item
+    )
+  )
+}
+
+export const removeCartItem = (lineId: string) => {
+  writeCart(readCart().filter((item) => item.lineId !== lineId))
+}
+
+export const clearCart = () => {
+  writeCart([])
+}
+
+export const repriceCartItems = (items: CartItem[], products: Product[]) => {
+  return items.map((item) => {
+    const product = products.find((entry) => entry.id === item.productId)
+    if (!product) return item
+
+    const variant = item.variantKey
+      ? ((product.variants ?? []).find((entry) => entry.key === item.variantKey) ?? null)
+      : null
+    return { ...item, price: getEffectivePrice(product, getVariantPrice(product, variant)) }
+  })
+}
+
+export const getCartItemCount = (items: CartItem[]) => {
+  return items.reduce((sum, item) => sum + item.quantity, 0)
+}
+
+export const getCartTotal = (items: CartItem[]) => {
+  return items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+}
@@ -0,0 +1,76 @@
+import type { Product } from '../types/product'
+import { slugifyCategory } from './catalogQuery'
+import { getDiscountPercent, getEffectivePrice } from './productPricing'
+import { getProductPriceRange } from './productVariants'
+
+export interface PriceRange {
+  min: number
+  max: number
+}
+
+export interface CatalogFilters {
+  categorySlugs: string[]
+  priceRange: PriceRange | null
+  onlyNew: boolean
+  onlyOffers: boolean
+}
+
+export interface CategoryFacet {
+  slug: string
+  label: string
+  count: number
+  isSelected: boolean
+}
+
+const getEffectivePriceRange = (product: Product): PriceRange => {
+  const { min, max } = getProductPriceRange(product)
+  return { min: getEffectivePrice(product, min), max: getEffectivePrice(product, max) }
+}
+
+export const getPriceBounds = (products: Product[]): PriceRange => {
+  if (products.length === 0) return { min: 0, max: 0 }
+
+  const ranges = products.map(getEffectivePriceRange)
+  return {
+    min: Math.floor(Math.min(...ranges.map((range) => range.min))),
+    max: Math.ceil(Math.max(...ranges.map((range) => range.max))),
+  }
+}
+
+export const matchesCatalogFilters = (product: Product, filters: CatalogFilters, ignoredFilter?: keyof CatalogFilters) => {
+  if (
+    ignoredFilter !== 'categorySlugs' &&
+    filters.categorySlugs.length > 0 &&
+    !filters.categorySlugs.includes(slugifyCategory(product.category))
+  ) {
+    return false
+  }
+
+  if (ignoredFilter !== 'priceRange' && filters.priceRange) {
+    const { min, max } = getEffectivePriceRange(product)
+    if (max < filters.priceRange.min || min > filters.priceRange.max) return false
+  }
+
+  if (ignoredFilter !== 'onlyNew' && filters.onlyNew && !product.isNew) return false
+  if (ignoredFilter !== 'onlyOffers' && filters.onlyOffers && getDiscountPercent(product) === 0) return false
+  return true
+}
+
+export const buildCategoryFacets = (products: Product[], categories: string[], filters: CatalogFilters): CategoryFacet[] => {
+  const counts = new Map<string, number>()
+
+  products.forEach((product) => {
+    if (!matchesCatalogFilters(product, filters, 'categorySlugs')) return
+    const slug = slugifyCategory(product.category)
+    counts.set(slug, (counts.get(slug) ?? 0) + 1)
+  })
+
+  return categories.map((category) => {
+    const slug = slugifyCategory(category)
+    return { slug, label: category, count: counts.get(slug) ?? 0, isSelected: filters.categorySlugs.includes(slug) }
+  })
+}
+
+export const countActiveFilters = (filters: CatalogFilters) => {
+  return filters.categorySlugs.length + Number(Boolean(filters.priceRange)) + Number(filters.onlyNew) + Number(filters.onlyOffers)
+}
@@ -0,0 +1,92 @@
+import { normalizeSearchText } from './productSearch'
+
+export type CatalogSortField = 'relevance' | 'name' | 'price' | 'discount' | 'newest' | 'rating' | 'views'
+export type CatalogSortDirection = 'asc' | 'desc'
+
+export interface CatalogQuery {
+  search: string
+  categorySlugs: string[]
+  minPrice: number | null
+  maxPrice: number | null
+  onlyNew: boolean
+  onlyOffers: boolean
+  sortField: CatalogSortField
+  sortDirection: CatalogSortDirection
+  page: number
+}
+
+const SORT_FIELDS: CatalogSortField[] = ['relevance', 'name', 'price', 'discount', 'newest', 'rating', 'views']
+
+export const DEFAULT_CATALOG_QUERY: CatalogQuery = {
+  search: '',
+  categorySlugs: [],
+  minPrice: null,
+  maxPrice: null,
+  onlyNew: false,
+  onlyOffers: false,
+  sortField: 'name',
+  sortDirection: 'asc',
+  page: 1,
+}
+
+export const slugifyCategory = (category: string) => normalizeSearchText(category).replace(/\s+/g, '-')
+
+const parseSortParam = (value: string | null): Pick<CatalogQuery, 'sortField' | 'sortDirection'> => {
+  const [field, direction] = (value ?? '').split('-')
+  if (!SORT_FIELDS.includes(field as CatalogSortField)) {
+    return { sortField: DEFAULT_CATALOG_QUERY.sortField, sortDirection: DEFAULT_CATALOG_QUERY.sortDirection }
+  }
+
+  return {
+    sortField: field as CatalogSortField,
+    sortDirection: direction === 'desc' ? 'desc' : 'asc',
+  }
+}
+
+const parseCategoriesParam = (value: string | null) => {
+  const slugs = (value ?? '').split(',').map(slugifyCategory).filter(Boolean)
+  return Array.from(new Set(slugs))
+}
+
+const parsePriceParam = (value: string | null) => {
+  if (!value) return null
+  const price = Number(value)
+  return Number.isFinite(price) && price >= 0 ? price : null
+}
+
+export const readCatalogQuery = (searchParams: URLSearchParams, categorySlug = ''): CatalogQuery => {
+  const page = Number.parseInt(searchParams.get('page') ?? '', 10)
+
+  return {
+    search: searchParams.get('q') ?? '',
+    categorySlugs: parseCategoriesParam(categorySlug || searchParams.get('cat')),
+    minPrice: parsePriceParam(searchParams.get('min')),
+    maxPrice: parsePriceParam(searchParams.get('max')),
+    onlyNew: searchParams.get('nuevo') === '1',
+    onlyOffers: searchParams.get('ofertas') === '1',
+    ...parseSortParam(searchParams.get('sort')),
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  }
+}
+
+export const buildCatalogLocation = (query: CatalogQuery) => {
+  const searchParams = new URLSearchParams()
+  const isCategoryLanding = query.categorySlugs.length === 1
+
+  if (query.search) searchParams.set('q', query.search)
+  if (query.categorySlugs.length > 1) searchParams.set('cat', query.categorySlugs.join(','))
+  if (query.minPrice !== null) searchParams.set('min', String(query.minPrice))
+  if (query.maxPrice !== null) searchParams.set('max', String(query.maxPrice))
+  if (query.onlyNew) searchParams.set('nuevo', '1')
+  if (query.onlyOffers) searchParams.set('ofertas', '1')
+  if (query.sortField !== DEFAULT_CATALOG_QUERY.sortField || query.sortDirection !== DEFAULT_CATALOG_QUERY.sortDirection) {
+    searchParams.set('sort', query.sortField === 'relevance' ? 'relevance' : `${query.sortField}-${query.sortDirection}`)
+  }
+  if (query.page > 1) searchParams.set('page', String(query.page))
+
+  const search = searchParams.toString()
+  return {
+    pathname: isCategoryLanding ? `/categoria/${query.categorySlugs[0]}` : '/',
+    search: search ? `?${search}` : '',
+  }
+}
@@ -0,0 +1,17 @@
+export const toDateInputValue = (value: string | null | undefined) => {
+  if (!value) return ''
+
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return ''
+
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export const fromDateInputValue = (value: string, boundary: 'start' | 'end') => {
+  if (!value) return null
+
+  const date = new Date(`${value}T${boundary === 'start' ? '00:00:00' : '23:59:59'}`)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
@@ -0,0 +1,54 @@
+export const MAX_SOURCE_IMAGE_BYTES = 10 * 1024 * 1024
+export const MAX_COMPRESSED_IMAGE_BYTES = 1024 * 1024
+
+const MAX_IMAGE_DIMENSION = 1280
+const INITIAL_QUALITY = 0.82
+const MIN_QUALITY = 0.5
+
+const loadImage = (file: File) => {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(image)
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('No se pudo leer la imagen'))
+    }
+    image.src = url
+  })
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, quality: number) => {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', quality))
+}
+
+export const compressImage = async (file: File): Promise<File | null> => {
+  if (!file.type.startsWith('image/') || file.size > MAX_SOURCE_IMAGE_BYTES) return null
+
+  try {
+    const image = await loadImage(file)
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(image.width, image.height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(image.width * scale)
+    canvas.height = Math.round(image.height * scale)
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height)
+
+    let quality = INITIAL_QUALITY
+    let blob = await canvasToBlob(canvas, quality)
+    while (blob && blob.size > MAX_COMPRESSED_IMAGE_BYTES && quality > MIN_QUALITY) {
+      quality -= 0.1
+      blob = await canvasToBlob(canvas, quality)
+    }
+
+    if (!blob || blob.size > MAX_COMPRESSED_IMAGE_BYTES) return null
+
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'foto'
+    return new File([blob], `${baseName}.jpg`, { type: 'image/jpeg' })
+  } catch (error) {
+    console.error('Error compressing image:', error)
+    return null
+  }
+}
@@ -0,0 +1,24 @@
+import type { Product } from '../types/product'
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100
+
+export const isSaleActive = (product: Product, now = new Date()) => {
+  if (!product.salePrice || product.salePrice >= product.price) return false
+
+  const time = now.getTime()
+  if (product.saleStartsAt && new Date(product.saleStartsAt).getTime() > time) return false
+  if (product.saleEndsAt && new Date(product.saleEndsAt).getTime() < time) return false
+  return true
+}
+
+export const getEffectivePrice = (product: Product, regularPrice = product.price) => {
+  if (!isSaleActive(product) || !product.salePrice) return regularPrice
+  if (regularPrice === product.price) return product.salePrice
+
+  return roundPrice(regularPrice * (product.salePrice / product.price))
+}
+
+export const getDiscountPercent = (product: Product) => {
+  if (!isSaleActive(product) || !product.salePrice) return 0
+  return Math.round((1 - product.salePrice / product.price) * 100)
+}
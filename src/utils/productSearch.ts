@@ -0,0 +1,127 @@
+import type { Product } from '../types/product'
+
+export interface TextSegment {
+  text: string
+  isMatch: boolean
+}
+
+const FIELD_WEIGHTS = {
+  name: 3,
+  category: 2,
+  description: 1,
+} as const
+
+const WORD_SEPARATOR_PATTERN = /([^\p{L}\p{N}]+)/u
+
+const STOP_WORDS = new Set(['de', 'del', 'la', 'las', 'el', 'los', 'un', 'una', 'y', 'en', 'con', 'para', 'por'])
+
+export const normalizeSearchText = (value: string) => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+export const tokenizeSearchQuery = (query: string) => {
+  return Array.from(new Set(normalizeSearchText(query).split(' ').filter((token) => token && !STOP_WORDS.has(token))))
+}
+
+const getAllowedTypos = (token: string) => {
+  if (token.length <= 3) return 0
+  if (token.length <= 6) return 1
+  return 2
+}
+
+const getEditDistance = (first: string, second: string) => {
+  const previousRow = Array.from({ length: second.length + 1 }, (_, index) => index)
+
+  for (let row = 1; row <= first.length; row += 1) {
+    let diagonal = previousRow[0]
+    previousRow[0] = row
+
+    for (let column = 1; column <= second.length; column += 1) {
+      const above = previousRow[column]
+      const cost = first[row - 1] === second[column - 1] ? 0 : 1
+      previousRow[column] = Math.min(previousRow[column] + 1, previousRow[column - 1] + 1, diagonal + cost)
+      diagonal = above
+    }
+  }
+
+  return previousRow[second.length]
+}
+
+const getTokenWordScore = (token: string, word: string) => {
+  if (word === token) return 1
+  if (word.startsWith(token)) return 0.9
+  if (token.length >= 3 && word.includes(token)) return 0.7
+
+  const allowedTypos = getAllowedTypos(token)
+  if (allowedTypos === 0) return 0
+  if (getEditDistance(token, word) <= allowedTypos) return 0.6
+  if (word.length > token.length && getEditDistance(token, word.slice(0, token.length)) <= allowedTypos) return 0.5
+  return 0
+}
+
+const getTokenTextScore = (token: string, words: string[]) => {
+  return words.reduce((best, word) => Math.max(best, getTokenWordScore(token, word)), 0)
+}
+
+export const getSearchScore = (fields: Partial<Record<keyof typeof FIELD_WEIGHTS, string>>, tokens: string[]) => {
+  if (tokens.length === 0) return 0
+
+  const fieldWords = (Object.keys(FIELD_WEIGHTS) as Array<keyof typeof FIELD_WEIGHTS>).map((field) => ({
+    weight: FIELD_WEIGHTS[field],
+    words: normalizeSearchText(fields[field] ?? '').split(' ').filter(Boolean),
+  }))
+
+  let totalScore = 0
+  for (const token of tokens) {
+    const tokenScore = fieldWords.reduce((best, field) => Math.max(best, getTokenTextScore(token, field.words) * field.weight), 0)
+    if (tokenScore === 0) return 0
+    totalScore += tokenScore
+  }
+
+  return totalScore
+}
+
+export const searchProducts = (products: Product[], query: string) => {
+  const tokens = tokenizeSearchQuery(query)
+  if (tokens.length === 0) return products
+
+  return products
+    .map((product, index) => ({
+      product,
+      index,
+      score: getSearchScore(
+        { name: product.name, category: product.category, description: product.description },
+        tokens
+      ),
+    }))
+    .filter((item) => item.score > 0)
+    .sort((first, second) => second.score - first.score || first.index - second.index)
+    .map((item) => item.product)
+}
+
+export const getHighlightSegments = (text: string, query: string): TextSegment[] => {
+  const tokens = tokenizeSearchQuery(query)
+  if (tokens.length === 0 || !text) return [{ text, isMatch: false }]
+
+  return text
+    .split(WORD_SEPARATOR_PATTERN)
+    .filter(Boolean)
+    .reduce<TextSegment[]>((segments, part) => {
+      const normalizedPart = normalizeSearchText(part)
+      const isMatch = Boolean(normalizedPart) && tokens.some((token) => getTokenWordScore(token, normalizedPart) > 0)
+      const previous = segments[segments.length - 1]
+
+      if (previous && previous.isMatch === isMatch) {
+        previous.text += part
+      } else {
+        segments.push({ text: part, isMatch })
+      }
+
+      return segments
+    }, [])
+}
@@ -0,0 +1,30 @@
+import type { Product } from '../types/product'
+
+export const LOW_STOCK_THRESHOLD = 3
+
+export type StockStatus = 'untracked' | 'in_stock' | 'low' | 'out'
+
+export const getStockStatus = (product: Product): StockStatus => {
+  if (product.stock === null || product.stock === undefined) return 'untracked'
+  if (product.stock <= 0) return 'out'
+  if (product.stock <= LOW_STOCK_THRESHOLD) return 'low'
+  return 'in_stock'
+}
+
+export const isOutOfStock = (product: Product) => {
+  return getStockStatus(product) === 'out'
+}
+
+export const getMaxOrderQuantity = (product: Product, fallback: number) => {
+  if (product.stock === null || product.stock === undefined) return fallback
+  return Math.max(0, Math.min(fallback, product.stock))
+}
+
+export const parseStockInput = (value: string): number | null | undefined => {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+
+  const parsed = Number(trimmed)
+  if (!Number.isInteger(parsed) || parsed < 0) return undefined
+  return parsed
+}
@@ -0,0 +1,94 @@
+import type { Product, ProductVariant, ProductVariantGroup } from '../types/product'
+
+export type VariantSelection = Record<string, string>
+
+export const buildVariantKey = (groups: ProductVariantGroup[], selection: VariantSelection) => {
+  return JSON.stringify(groups.filter((group) => group.name.trim()).map((group) => selection[group.name] ?? ''))
+}
+
+export const formatVariantLabel = (groups: ProductVariantGroup[], selection: VariantSelection) => {
+  return groups
+    .filter((group) => selection[group.name])
+    .map((group) => `${group.name}: ${selection[group.name]}`)
+    .join(', ')
+}
+
+export const hasVariants = (product: Product) => {
+  return (product.variantGroups ?? []).length > 0
+}
+
+const buildSelections = (groups: ProductVariantGroup[]): VariantSelection[] => {
+  return groups.reduce<VariantSelection[]>(
+    (combinations, group) =>
+      combinations.flatMap((combination) =>
+        group.options.map((option) => ({ ...combination, [group.name]: option }))
+      ),
+    [{}]
+  )
+}
+
+export const buildVariantCombinations = (
+  groups: ProductVariantGroup[],
+  currentVariants: ProductVariant[] = []
+): ProductVariant[] => {
+  const validGroups = groups.filter((group) => group.name.trim() && group.options.length > 0)
+  if (validGroups.length === 0) return []
+
+  const currentByKey = new Map(currentVariants.map((variant) => [variant.key, variant]))
+
+  return buildSelections(validGroups).map((selection) => {
+    const key = buildVariantKey(validGroups, selection)
+    const current = currentByKey.get(key)
+
+    return {
+      key,
+      options: selection,
+      price: current?.price ?? null,
+      isAvailable: current?.isAvailable ?? true,
+    }
+  })
+}
+
+export const findProductVariant = (product: Product, selection: VariantSelection) => {
+  const groups = product.variantGroups ?? []
+  if (groups.length === 0) return null
+
+  const isComplete = groups.every((group) => Boolean(selection[group.name]))
+  if (!isComplete) return null
+
+  const key = buildVariantKey(groups, selection)
+  return (product.variants ?? []).find((variant) => variant.key === key) ?? null
+}
+
+export const getVariantPrice = (product: Product, variant: ProductVariant | null) => {
+  return variant?.price ?? product.price
+}
+
+export const isVariantOptionAvailable = (
+  product: Product,
+  selection: VariantSelection,
+  groupName: string,
+  option: string
+) => {
+  const variants = product.variants ?? []
+  if (variants.length === 0) return true
+
+  const candidate = { ...selection, [groupName]: option }
+  return variants.some(
+    (variant) =>
+      variant.isAvailable &&
+      Object.entries(candidate).every(([name, value]) => !value || variant.options[name] === value)
+  )
+}
+
+export const getProductPriceRange = (product: Product) => {
+  const availablePrices = (product.variants ?? [])
+    .filter((variant) => variant.isAvailable)
+    .map((variant) => variant.price ?? product.price)
+
+  if (availablePrices.length === 0) {
+    return { min: product.price, max: product.price }
+  }
+
+  return { min: Math.min(...availablePrices), max: Math.max(...availablePrices) }
+}
@@ -0,0 +1,28 @@
+const RECENT_SEARCHES_STORAGE_KEY = '@fl_store_recent_searches'
+export const MAX_RECENT_SEARCHES = 5
+
+export const readRecentSearches = (): string[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(RECENT_SEARCHES_STORAGE_KEY) ?? '[]') as unknown
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string').slice(0, MAX_RECENT_SEARCHES) : []
+  } catch {
+    return []
+  }
+}
+
+export const saveRecentSearch = (term: string) => {
+  const trimmedTerm = term.trim()
+  if (!trimmedTerm) return readRecentSearches()
+
+  const nextSearches = [
+    trimmedTerm,
+    ...readRecentSearches().filter((item) => item.toLowerCase() !== trimmedTerm.toLowerCase()),
+  ].slice(0, MAX_RECENT_SEARCHES)
+
+  localStorage.setItem(RECENT_SEARCHES_STORAGE_KEY, JSON.stringify(nextSearches))
+  return nextSearches
+}
+
+export const clearRecentSearches = () => {
+  localStorage.removeItem(RECENT_SEARCHES_STORAGE_KEY)
+}
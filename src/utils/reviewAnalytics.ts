@@ -0,0 +1,117 @@
+import type { Review } from '../types/review'
+import { getReviewDateValue } from './reviews'
+
+export interface MonthlyRating {
+  averageRating: number
+  totalReviews: number
+}
+
+export interface RatingGroup {
+  key: string
+  label: string
+  averageRating: number
+  totalReviews: number
+  recommendRate: number
+  monthly: Record<string, MonthlyRating>
+}
+
+export interface ModerationStats {
+  pending: number
+  approved: number
+  rejected: number
+  approvalRate: number
+  averagePendingHours: number
+  oldestPendingHours: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+export const getMonthKey = (value: string) => {
+  const date = new Date(getReviewDateValue(value))
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+export const getRecentMonthKeys = (count: number, now = new Date()) => {
+  return Array.from({ length: count }, (_, index) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - (count - 1 - index), 1)
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+  })
+}
+
+export const formatMonthKey = (monthKey: string) => {
+  const [year, month] = monthKey.split('-').map(Number)
+  return new Date(year, month - 1, 1).toLocaleDateString('es-EC', { month: 'short', year: '2-digit' })
+}
+
+const getAverageRating = (reviews: Review[]) => {
+  if (reviews.length === 0) return 0
+  return reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length
+}
+
+export const getRecommendationRate = (reviews: Review[]) => {
+  if (reviews.length === 0) return 0
+  return reviews.filter((review) => review.recommend).length / reviews.length
+}
+
+export const buildRatingGroups = (
+  reviews: Review[],
+  getGroup: (review: Review) => { key: string; label: string }
+): RatingGroup[] => {
+  const reviewsByGroup = new Map<string, { label: string; items: Review[] }>()
+
+  reviews.forEach((review) => {
+    const group = getGroup(review)
+    if (!group.key) return
+
+    const current = reviewsByGroup.get(group.key) ?? { label: group.label, items: [] }
+    current.items.push(review)
+    reviewsByGroup.set(group.key, current)
+  })
+
+  return Array.from(reviewsByGroup.entries()).map(([key, { label, items }]) => {
+    const itemsByMonth = items.reduce<Record<string, Review[]>>((accumulator, review) => {
+      const monthKey = getMonthKey(review.createdAt)
+      accumulator[monthKey] = [...(accumulator[monthKey] ?? []), review]
+      return accumulator
+    }, {})
+
+    return {
+      key,
+      label,
+      averageRating: getAverageRating(items),
+      totalReviews: items.length,
+      recommendRate: getRecommendationRate(items),
+      monthly: Object.fromEntries(
+        Object.entries(itemsByMonth).map(([monthKey, monthItems]) => [
+          monthKey,
+          { averageRating: getAverageRating(monthItems), totalReviews: monthItems.length },
+        ])
+      ),
+    }
+  })
+}
+
+export const getModerationStats = (reviews: Review[], now = Date.now()): ModerationStats => {
+  const pendingReviews = reviews.filter((review) => review.status === 'pending')
+  const approved = reviews.filter((review) => review.status === 'approved').length
+  const rejected = reviews.filter((review) => review.status === 'rejected').length
+  const pendingHours = pendingReviews
+    .map((review) => getReviewDateValue(review.createdAt))
+    .filter((createdAt) => createdAt > 0)
+    .map((createdAt) => Math.max(0, now - createdAt) / HOUR_MS)
+
+  return {
+    pending: pendingReviews.length,
+    approved,
+    rejected,
+    approvalRate: approved + rejected > 0 ? approved / (approved + rejected) : 0,
+    averagePendingHours: pendingHours.length > 0 ? pendingHours.reduce((sum, hours) => sum + hours, 0) / pendingHours.length : 0,
+    oldestPendingHours: pendingHours.length > 0 ? Math.max(...pendingHours) : 0,
+  }
+}
+
+export const formatHours = (hours: number) => {
+  if (hours < 1) return 'menos de 1 h'
+  if (hours < 48) return `${Math.round(hours)} h`
+  return `${Math.round(hours / 24)} días`
+}
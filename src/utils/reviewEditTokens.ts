@@ -0,0 +1,31 @@
+const REVIEW_EDIT_TOKENS_STORAGE_KEY = '@fl_store_review_edit_tokens'
+
+const readTokens = (): Record<string, string> => {
+  try {
+    const storedValue = localStorage.getItem(REVIEW_EDIT_TOKENS_STORAGE_KEY)
+    const tokens = storedValue ? (JSON.parse(storedValue) as unknown) : {}
+    return tokens && typeof tokens === 'object' && !Array.isArray(tokens) ? (tokens as Record<string, string>) : {}
+  } catch {
+    return {}
+  }
+}
+
+const writeTokens = (tokens: Record<string, string>) => {
+  localStorage.setItem(REVIEW_EDIT_TOKENS_STORAGE_KEY, JSON.stringify(tokens))
+}
+
+export const readReviewEditToken = (reviewId: string) => {
+  const token = readTokens()[reviewId]
+  return typeof token === 'string' ? token : ''
+}
+
+export const saveReviewEditToken = (reviewId: string, token: string) => {
+  if (!reviewId || !token) return
+  writeTokens({ ...readTokens(), [reviewId]: token })
+}
+
+export const forgetReviewEditToken = (reviewId: string) => {
+  const tokens = readTokens()
+  delete tokens[reviewId]
+  writeTokens(tokens)
+}
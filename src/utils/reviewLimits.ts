@@ -0,0 +1,79 @@
+import type { ReviewLimitCode, ReviewLimitError } from '../types/review'
+
+interface ReviewSubmissionRecord {
+  visitorId: string
+  productId: string
+  createdAt: number
+}
+
+const REVIEW_SUBMISSIONS_STORAGE_KEY = '@fl_store_review_submissions'
+const LIKE_TOGGLES_STORAGE_KEY = '@fl_store_review_like_toggles'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const MAX_REVIEWS_PER_DAY = 3
+export const LIKE_COOLDOWN_SECONDS = 5
+
+export const REVIEW_LIMIT_MESSAGES: Record<ReviewLimitCode, string> = {
+  duplicate_product: 'Ya enviaste un comentario para este producto. Solo se permite uno por producto.',
+  daily_limit: `Alcanzaste el límite de ${MAX_REVIEWS_PER_DAY} comentarios por día. Intenta nuevamente mañana.`,
+  like_cooldown: 'Espera unos segundos antes de volver a cambiar tu like.',
+}
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const storedValue = localStorage.getItem(key)
+    return storedValue ? (JSON.parse(storedValue) as T) : fallback
+  } catch {
+    return fallback
+  }
+}
+
+const readSubmissions = () => {
+  const records = readJson<ReviewSubmissionRecord[]>(REVIEW_SUBMISSIONS_STORAGE_KEY, [])
+  return Array.isArray(records) ? records : []
+}
+
+export const createReviewLimitError = (code: ReviewLimitCode, retryAfterSeconds = 0): ReviewLimitError => ({
+  code,
+  message: REVIEW_LIMIT_MESSAGES[code],
+  retryAfterSeconds,
+})
+
+export const getReviewSubmissionLimit = (visitorId: string, productId: string, now = Date.now()) => {
+  const visitorRecords = readSubmissions().filter((record) => record.visitorId === visitorId)
+
+  if (productId && visitorRecords.some((record) => record.productId === productId)) {
+    return createReviewLimitError('duplicate_product')
+  }
+
+  const recentRecords = visitorRecords.filter((record) => now - record.createdAt < DAY_MS)
+  if (recentRecords.length >= MAX_REVIEWS_PER_DAY) {
+    const oldestRecord = Math.min(...recentRecords.map((record) => record.createdAt))
+    return createReviewLimitError('daily_limit', Math.ceil((oldestRecord + DAY_MS - now) / 1000))
+  }
+
+  return null
+}
+
+export const recordReviewSubmission = (visitorId: string, productId: string, now = Date.now()) => {
+  const records = readSubmissions()
+  records.push({ visitorId, productId, createdAt: now })
+  localStorage.setItem(REVIEW_SUBMISSIONS_STORAGE_KEY, JSON.stringify(records))
+}
+
+export const getLikeCooldownLimit = (visitorId: string, reviewId: string, now = Date.now()) => {
+  const toggles = readJson<Record<string, number>>(LIKE_TOGGLES_STORAGE_KEY, {})
+  const lastToggle = Number(toggles[`${visitorId}:${reviewId}`] ?? 0)
+  const remainingMs = lastToggle + LIKE_COOLDOWN_SECONDS * 1000 - now
+
+  return remainingMs > 0 ? createReviewLimitError('like_cooldown', Math.ceil(remainingMs / 1000)) : null
+}
+
+export const recordLikeToggle = (visitorId: string, reviewId: string, now = Date.now()) => {
+  const toggles = readJson<Record<string, number>>(LIKE_TOGGLES_STORAGE_KEY, {})
+  const activeToggles = Object.fromEntries(
+    Object.entries(toggles).filter(([, toggledAt]) => now - toggledAt < LIKE_COOLDOWN_SECONDS * 1000)
+  )
+  activeToggles[`${visitorId}:${reviewId}`] = now
+  localStorage.setItem(LIKE_TOGGLES_STORAGE_KEY, JSON.stringify(activeToggles))
+}
@@ -0,0 +1,168 @@
+import type { ReviewFlag, ReviewScreening } from '../types/review'
+
+interface ScreenableReview {
+  id?: string
+  productId?: string
+  customerName: string
+  comment: string
+  visitorId?: string
+  createdAt?: string
+}
+
+interface ScreeningOptions {
+  blockedWords: string[]
+  previousReviews?: ScreenableReview[]
+}
+
+const REPEAT_WINDOW_MS = 24 * 60 * 60 * 1000
+const MIN_REPEATED_COMMENT_LENGTH = 40
+
+export const DEFAULT_BLOCKED_WORDS = [
+  'mierda',
+  'puta',
+  'puto',
+  'pendejo',
+  'pendeja',
+  'cabron',
+  'carajo',
+  'verga',
+  'chucha',
+  'estafa',
+  'estafadores',
+  'ladrones',
+  'idiota',
+  'imbecil',
+  'maricon',
+  'huevon',
+  'gonorrea',
+  'malparido',
+]
+
+export const REVIEW_FLAG_LABELS: Record<ReviewFlag, string> = {
+  profanity: 'Lenguaje ofensivo',
+  link: 'Contiene enlaces',
+  phone: 'Contiene teléfono',
+  repeat: 'Envío repetido',
+  gibberish: 'Texto sin sentido',
+}
+
+const REVIEW_FLAG_WEIGHTS: Record<ReviewFlag, number> = {
+  profanity: 45,
+  link: 40,
+  phone: 30,
+  repeat: 30,
+  gibberish: 35,
+}
+
+const LEET_REPLACEMENTS: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '@': 'a',
+  $: 's',
+}
+
+const LINK_PATTERN = /(https?:\/\/|www\.[a-z0-9-]+\.[a-z]{2,}|\b[a-z0-9-]{2,}\.(com|net|org|io|ly|app|shop|store)\b|\b[a-z0-9-]{2,}\.(ec|co|me)\/)/
+const PHONE_PATTERN = /(?:\+?\d[\s.-]?){7,}/
+const REPEATED_CHARACTER_PATTERN = /(.)\1{4,}/
+const CONSONANT_RUN_PATTERN = /[bcdfghjklmnpqrstvwxyz]{6,}/
+const KEYBOARD_MASH_PATTERN = /(asdf|qwer|zxcv|hjkl|dfgh|sdfg)/
+
+const normalizeText = (value: string) => {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+}
+
+const normalizeLeetText = (value: string) => {
+  return normalizeText(value).replace(/[01345@$]/g, (character) => LEET_REPLACEMENTS[character] ?? character)
+}
+
+const containsBlockedWord = (text: string, blockedWords: string[]) => {
+  const normalizedText = normalizeLeetText(text)
+  const words = new Set(normalizedText.split(/[^a-z]+/).filter(Boolean))
+  return blockedWords.some((word) => {
+    const normalizedWord = normalizeText(word).trim()
+    if (!normalizedWord) return false
+    if (normalizedWord.includes(' ')) return normalizedText.includes(normalizedWord)
+    return words.has(normalizedWord)
+  })
+}
+
+const isGibberish = (text: string) => {
+  const normalizedText = normalizeText(text)
+  const letters = normalizedText.replace(/[^a-z]/g, '')
+  if (letters.length < 6) return letters.length > 0 && !/[aeiou]/.test(letters)
+
+  const vowelRatio = letters.replace(/[^aeiou]/g, '').length / letters.length
+  const uniqueRatio = new Set(letters).size / letters.length
+
+  return (
+    vowelRatio < 0.2 ||
+    (letters.length >= 12 && uniqueRatio < 0.2) ||
+    REPEATED_CHARACTER_PATTERN.test(normalizedText) ||
+    CONSONANT_RUN_PATTERN.test(letters) ||
+    KEYBOARD_MASH_PATTERN.test(letters)
+  )
+}
+
+const isRepeatedSubmission = (review: ScreenableReview, previousReviews: ScreenableReview[]) => {
+  const comment = normalizeText(review.comment).replace(/\s+/g, ' ').trim()
+  const createdAt = review.createdAt ? new Date(review.createdAt).getTime() : Date.now()
+
+  return previousReviews.some((item) => {
+    if (review.id && item.id === review.id) return false
+
+    const itemCreatedAt = item.createdAt ? new Date(item.createdAt).getTime() : Number.NaN
+    if (!Number.isNaN(itemCreatedAt) && itemCreatedAt > createdAt) return false
+
+    const sameVisitor = Boolean(review.visitorId) && item.visitorId === review.visitorId
+    const sameComment =
+      normalizeText(item.comment).replace(/\s+/g, ' ').trim() === comment &&
+      (sameVisitor || comment.length >= MIN_REPEATED_COMMENT_LENGTH)
+    const sameProductBurst =
+      sameVisitor &&
+      Boolean(review.productId) &&
+      item.productId === review.productId &&
+      !Number.isNaN(itemCreatedAt) &&
+      createdAt - itemCreatedAt < REPEAT_WINDOW_MS
+
+    return sameComment || sameProductBurst
+  })
+}
+
+export const getRiskScore = (flags: ReviewFlag[]) => {
+  return Math.min(100, flags.reduce((total, flag) => total + REVIEW_FLAG_WEIGHTS[flag], 0))
+}
+
+export const screenReview = (
+  review: ScreenableReview,
+  { blockedWords, previousReviews = [] }: ScreeningOptions
+): ReviewScreening => {
+  const text = `${review.customerName} ${review.comment}`
+  const flags: ReviewFlag[] = []
+
+  if (containsBlockedWord(text, blockedWords)) flags.push('profanity')
+  if (LINK_PATTERN.test(normalizeText(text))) flags.push('link')
+  if (PHONE_PATTERN.test(text)) flags.push('phone')
+  if (isRepeatedSubmission(review, previousReviews)) flags.push('repeat')
+  if (isGibberish(review.comment)) flags.push('gibberish')
+
+  return { riskScore: getRiskScore(flags), flags }
+}
+
+export const mergeScreenings = (first: ReviewScreening, second: ReviewScreening): ReviewScreening => {
+  const flags = Array.from(new Set([...first.flags, ...second.flags]))
+  return { riskScore: getRiskScore(flags), flags }
+}
+
+export const parseBlockedWords = (value: string) => {
+  return Array.from(
+    new Set(
+      value
+        .split(/[\n,]/)
+        .map((word) => word.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  )
+}
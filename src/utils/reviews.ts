@@ -0,0 +1,109 @@
+import type { RatingDistribution, Review } from '../types/review'
+
+export interface ReviewSummary {
+  averageRating: number
+  totalReviews: number
+}
+
+export const getReviewSummary = (reviews: Review[]): ReviewSummary => {
+  if (reviews.length === 0) return { averageRating: 0, totalReviews: 0 }
+
+  const totalRating = reviews.reduce((sum, review) => sum + review.rating, 0)
+  return { averageRating: totalRating / reviews.length, totalReviews: reviews.length }
+}
+
+export const buildProductRatings = (reviews: Review[]) => {
+  const reviewsByProduct = new Map<string, Review[]>()
+  reviews.forEach((review) => {
+    if (!review.productId) return
+    reviewsByProduct.set(review.productId, [...(reviewsByProduct.get(review.productId) ?? []), review])
+  })
+
+  return Array.from(reviewsByProduct.entries()).reduce<Record<string, ReviewSummary>>((accumulator, [productId, items]) => {
+    accumulator[productId] = getReviewSummary(items)
+    return accumulator
+  }, {})
+}
+
+export const REVIEW_SORT_OPTIONS = [
+  { value: 'featured', label: 'Destacadas' },
+  { value: 'helpful', label: 'Más útiles' },
+  { value: 'newest', label: 'Más recientes' },
+  { value: 'highest', label: 'Mejor calificadas' },
+  { value: 'lowest', label: 'Peor calificadas' },
+] as const
+
+export type ReviewSortMode = (typeof REVIEW_SORT_OPTIONS)[number]['value']
+
+export const getRatingDistribution = (reviews: Review[]): RatingDistribution => {
+  return reviews.reduce<RatingDistribution>(
+    (accumulator, review) => {
+      const rating = Math.min(5, Math.max(1, Math.round(review.rating))) as keyof RatingDistribution
+      accumulator[rating] += 1
+      return accumulator
+    },
+    { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 }
+  )
+}
+
+export const getReviewDateValue = (value: string) => {
+  const parsed = new Date(value).getTime()
+  return Number.isNaN(parsed) ? 0 : parsed
+}
+
+const byVerifiedPurchase = (first: Review, second: Review) => {
+  return Number(second.verifiedPurchase) - Number(first.verifiedPurchase)
+}
+
+const prioritizeReviews = (reviews: Review[]): Review[] => {
+  if (reviews.length <= 1) return [...reviews]
+
+  const topRated = [...reviews]
+    .sort((first, second) => {
+      const byRating = second.rating - first.rating
+      if (byRating !== 0) return byRating
+      const byVerified = byVerifiedPurchase(first, second)
+      if (byVerified !== 0) return byVerified
+      return getReviewDateValue(second.createdAt) - getReviewDateValue(first.createdAt)
+    })
+    .slice(0, 2)
+
+  const lowRated = [...reviews]
+    .sort((first, second) => {
+      const byRating = first.rating - second.rating
+      if (byRating !== 0) return byRating
+      const byVerified = byVerifiedPurchase(first, second)
+      if (byVerified !== 0) return byVerified
+      return getReviewDateValue(second.createdAt) - getReviewDateValue(first.createdAt)
+    })
+    .slice(0, 2)
+
+  const featured = [...topRated, ...lowRated].reduce<Review[]>((accumulator, current) => {
+    if (accumulator.some((item) => item.id === current.id)) return accumulator
+    accumulator.push(current)
+    return accumulator
+  }, [])
+
+  const remaining = reviews
+    .filter((review) => !featured.some((item) => item.id === review.id))
+    .sort(
+      (first, second) =>
+        byVerifiedPurchase(first, second) || getReviewDateValue(second.createdAt) - getReviewDateValue(first.createdAt)
+    )
+
+  return [...featured, ...remaining]
+}
+
+export const sortReviews = (reviews: Review[], mode: ReviewSortMode): Review[] => {
+  if (mode === 'featured') return prioritizeReviews(reviews)
+
+  const byNewest = (first: Review, second: Review) =>
+    getReviewDateValue(second.createdAt) - getReviewDateValue(first.createdAt)
+
+  return [...reviews].sort((first, second) => {
+    if (mode === 'helpful') return second.likeCount - first.likeCount || byNewest(first, second)
+    if (mode === 'highest') return second.rating - first.rating || byNewest(first, second)
+    if (mode === 'lowest') return first.rating - second.rating || byNewest(first, second)
+    return byNewest(first, second)
+  })
+}
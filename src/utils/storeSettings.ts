@@ -0,0 +1,81 @@
+import type { BusinessHoursDay, StoreSettings } from '../types/storeSettings'
+import { DEFAULT_BLOCKED_WORDS } from './reviewScreening'
+
+const STORE_SETTINGS_CHANGE_EVENT = 'fl-store-settings-change'
+
+export const WEEKDAY_LABELS = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado']
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHoursDay[] = WEEKDAY_LABELS.map((_, day) => ({
+  day,
+  isOpen: day !== 0,
+  opensAt: '09:00',
+  closesAt: day === 6 ? '13:00' : '18:00',
+}))
+
+export const DEFAULT_STORE_SETTINGS: StoreSettings = {
+  storeName: 'FL Store',
+  whatsappAgents: [{ id: 'principal', name: 'Ventas', phone: '593993385551', categories: [], isActive: true }],
+  routingMode: 'category',
+  outOfHours: {
+    mode: 'message',
+    message: 'Estamos fuera del horario de atención. Te responderemos apenas estemos disponibles.',
+    agentId: '',
+  },
+  phone: '593993385551',
+  email: 'fernando.lara.moran@gmail.com',
+  address: '',
+  socialLinks: {
+    facebook: '',
+    instagram: '',
+    tiktok: '',
+  },
+  businessHours: DEFAULT_BUSINESS_HOURS,
+  messageTemplates: {
+    cardContact: 'Hola! Estoy interesado en: {producto} - ${precio}',
+    detailContact: 'Hola! Estoy interesado en: {producto} x{cantidad} - ${precio} c/u',
+    cartOrder: 'Hola! Quiero hacer el siguiente pedido ({cantidad} unidades):',
+  },
+  reviewModeration: {
+    blockedWords: DEFAULT_BLOCKED_WORDS,
+    autoReject: false,
+    autoRejectScore: 70,
+  },
+  developerCredit: {
+    companyName: 'Fernando Lara Soft',
+    tagline: 'Soluciones digitales innovadoras para tu negocio',
+    developerName: 'Fernando Lara Morán',
+    logoUrl: '/fernando-lara-soft-logo.png',
+  },
+}
+
+let currentSettings = DEFAULT_STORE_SETTINGS
+
+export const readStoreSettings = () => currentSettings
+
+export const setStoreSettings = (settings: StoreSettings) => {
+  currentSettings = settings
+  window.dispatchEvent(new Event(STORE_SETTINGS_CHANGE_EVENT))
+}
+
+export const subscribeStoreSettings = (onChange: () => void) => {
+  window.addEventListener(STORE_SETTINGS_CHANGE_EVENT, onChange)
+  return () => window.removeEventListener(STORE_SETTINGS_CHANGE_EVENT, onChange)
+}
+
+export const getActiveAgents = (settings: StoreSettings) => {
+  return settings.whatsappAgents.filter((agent) => agent.isActive && agent.phone)
+}
+
+export const sanitizePhoneNumber = (value: string) => value.replace(/\D/g, '')
+
+export const formatPhoneNumber = (value: string) => {
+  const digits = sanitizePhoneNumber(value)
+  if (digits.startsWith('593') && digits.length > 3) return `+593 ${digits.slice(3)}`
+  return digits ? `+${digits}` : ''
+}
+
+export const formatBusinessHours = (businessHours: BusinessHoursDay[]) => {
+  return businessHours
+    .filter((item) => item.isOpen)
+    .map((item) => `${WEEKDAY_LABELS[item.day]}: ${item.opensAt} - ${item.closesAt}`)
+}
@@ -0,0 +1,12 @@
+const VISITOR_ID_STORAGE_KEY = '@fl_store_visitor_id'
+
+export const getOrCreateVisitorId = () => {
+  let currentVisitorId = localStorage.getItem(VISITOR_ID_STORAGE_KEY)
+
+  if (!currentVisitorId) {
+    currentVisitorId = globalThis.crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random()}`
+    localStorage.setItem(VISITOR_ID_STORAGE_KEY, currentVisitorId)
+  }
+
+  return currentVisitorId
+}
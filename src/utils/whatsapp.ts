@@ -1,5 +1,124 @@
-export const openWhatsApp = (message: string) => {
-  const phoneNumber = '593993385551'
-  const whatsappUrl = `https://wa.me/${phoneNumber}?text=${encodeURIComponent(message)}`
+import type { CartItem } from '../types/cart'
+import type { Product } from '../types/product'
+import type { StoreMessageTemplates, StoreSettings, WhatsAppAgent } from '../types/storeSettings'
+import { isWithinBusinessHours } from './businessHours'
+import { getCartItemCount, getCartTotal } from './cart'
+import { getEffectivePrice } from './productPricing'
+import { getActiveAgents, readStoreSettings } from './storeSettings'
+import { getOrCreateVisitorId } from './visitor'
+
+export type MessagePlaceholder = 'producto' | 'precio' | 'categoria' | 'url' | 'cantidad'
+
+export const MESSAGE_PLACEHOLDERS: MessagePlaceholder[] = ['producto', 'precio', 'categoria', 'url', 'cantidad']
+
+const PLACEHOLDER_PATTERN = /\{(producto|precio|categoria|url|cantidad)\}/g
+
+export const formatPrice = (value: number) => {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2)
+}
+
+const hashVisitorId = (visitorId: string) => {
+  return Array.from(visitorId).reduce((hash, character) => (hash * 31 + character.charCodeAt(0)) >>> 0, 0)
+}
+
+const pickVisitorAgent = (agents: WhatsAppAgent[]) => {
+  return agents[hashVisitorId(getOrCreateVisitorId()) % agents.length]
+}
+
+export const selectWhatsAppAgent = (settings: StoreSettings, category = '') => {
+  const agents = getActiveAgents(settings)
+  if (agents.length === 0) return null
+  if (settings.routingMode === 'round_robin') return pickVisitorAgent(agents)
+
+  const normalizedCategory = category.trim().toLowerCase()
+  const categoryAgents = agents.filter((agent) =>
+    agent.categories.some((item) => item.trim().toLowerCase() === normalizedCategory)
+  )
+  const generalAgents = agents.filter((agent) => agent.categories.length === 0)
+
+  return pickVisitorAgent(categoryAgents.length > 0 ? categoryAgents : generalAgents.length > 0 ? generalAgents : agents)
+}
+
+export const openWhatsApp = (message: string, category = '') => {
+  const settings = readStoreSettings()
+  let agent = selectWhatsAppAgent(settings, category)
+
+  if (!isWithinBusinessHours(settings.businessHours)) {
+    const fallbackAgent =
+      settings.outOfHours.mode === 'agent'
+        ? getActiveAgents(settings).find((item) => item.id === settings.outOfHours.agentId)
+        : undefined
+
+    if (fallbackAgent) {
+      agent = fallbackAgent
+    } else if (
+      settings.outOfHours.message &&
+      !window.confirm(`${settings.outOfHours.message}\n\n¿Deseas enviar tu mensaje de todas formas?`)
+    ) {
+      return
+    }
+  }
+
+  if (!agent) {
+    window.alert('No hay asesores disponibles en este momento')
+    return
+  }
+
+  const whatsappUrl = `https://wa.me/${agent.phone}?text=${encodeURIComponent(message)}`
   window.open(whatsappUrl, '_blank', 'noopener,noreferrer')
 }
+
+export const getMainCartCategory = (items: CartItem[]) => {
+  const unitsByCategory = new Map<string, number>()
+  items.forEach((item) => {
+    unitsByCategory.set(item.category, (unitsByCategory.get(item.category) ?? 0) + item.quantity)
+  })
+
+  return Array.from(unitsByCategory.entries()).sort((first, second) => second[1] - first[1])[0]?.[0] ?? ''
+}
+
+export const getProductUrl = (productId: string) => {
+  return `${window.location.origin}/producto/${productId}`
+}
+
+export const getReviewInviteUrl = (productId: string, code: string) => {
+  return `${getProductUrl(productId)}?codigo=${encodeURIComponent(code)}#opiniones`
+}
+
+export const renderMessageTemplate = (template: string, values: Partial<Record<MessagePlaceholder, string>>) => {
+  return template.replace(PLACEHOLDER_PATTERN, (_, key: MessagePlaceholder) => values[key] ?? '').trim()
+}
+
+export const buildProductContactMessage = (
+  context: Exclude<keyof StoreMessageTemplates, 'cartOrder'>,
+  product: Product,
+  options: { price?: number; quantity?: number; variantLabel?: string } = {}
+) => {
+  const template = readStoreSettings().messageTemplates[context]
+  const url = getProductUrl(product.id)
+  const message = renderMessageTemplate(template, {
+    producto: options.variantLabel ? `${product.name} (${options.variantLabel})` : product.name,
+    precio: formatPrice(options.price ?? getEffectivePrice(product)),
+    categoria: product.category,
+    url,
+    cantidad: String(options.quantity ?? 1),
+  })
+
+  return template.includes('{url}') ? message : `${message}\n${url}`
+}
+
+export const buildCartOrderMessage = (items: CartItem[]) => {
+  const lines = items.map((item, index) => {
+    const lineTotal = item.price * item.quantity
+    const itemName = item.variantLabel ? `${item.name} (${item.variantLabel})` : item.name
+    return `${index + 1}. ${itemName} x${item.quantity} - $${formatPrice(item.price)} c/u = $${formatPrice(lineTotal)}\n   ${getProductUrl(item.productId)}`
+  })
+  const total = getCartTotal(items)
+  const header = renderMessageTemplate(readStoreSettings().messageTemplates.cartOrder, {
+    precio: formatPrice(total),
+    cantidad: String(getCartItemCount(items)),
+    url: window.location.origin,
+  })
+
+  return [header, '', ...lines, '', `Total: $${formatPrice(total)}`].join('\n')
+}